@@ -0,0 +1,247 @@
+/**
+ * Evaluate matching prompt versions against a fixed set of charity profiles
+ * with known good funders, reporting recall, precision, MRR, nDCG and mean rank
+ *
+ * With --backtest, the cases come from history instead: registered charities
+ * that received grants on or after the cut-off are matched using only the
+ * grants awarded before it, and scored on the funders that funded them later
+ *
+ * Usage: npm run eval:matching -- [options]
+ *   --prompts v1,v2        Prompt versions to compare (default: the active one)
+ *   --provider offline     offline (default), recorded (replay saved model
+ *                          responses) or record (call Claude and save them)
+ *   --cases <file>         Case file (default: scripts/eval/match-cases.json)
+ *   --recordings <dir>     Recording directory (default: scripts/eval/recordings)
+ *   --no-save              Print results without storing them in Supabase
+ *
+ * Backtest options:
+ *   --backtest <date>      Cut-off date, e.g. 2023-01-01
+ *   --recipients <n>       Recipients to test (default: 20)
+ *   --min-funders <n>      Fewest later funders a recipient needs (default: 2)
+ *   --new-funders-only     Only count funders the recipient hadn't had before
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { AnthropicProvider } from '@/lib/ai/anthropic-provider';
+import { getBacktestProfile, selectBacktestCases } from '@/lib/ai/backtest';
+import {
+  averageMetrics,
+  computeRankingMetrics,
+  EVAL_CUTOFFS,
+  recordEvaluationResult,
+  type EvaluationMode,
+  type RankingMetrics,
+} from '@/lib/ai/evaluation';
+import { matchFunders } from '@/lib/ai/matching';
+import { OfflineProvider } from '@/lib/ai/offline-provider';
+import { getMatchingPrompt } from '@/lib/ai/prompts';
+import { setMatchingProvider, type MatchingProvider } from '@/lib/ai/provider';
+import { RecordedProvider } from '@/lib/ai/recorded-provider';
+import type { CharityProfile } from '@/types';
+
+interface EvalCase {
+  name: string;
+  charity: Partial<CharityProfile>;
+  expected_funder_ids: string[];
+}
+
+// Rank every candidate so metrics see where expected funders fell, not just
+// whether they made the top 20
+const EVAL_MATCH_LIMIT = 200;
+
+function parseArgs(argv: string[]) {
+  const args = new Map<string, string | true>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next && !next.startsWith('--')) {
+      args.set(arg.slice(2), next);
+      i++;
+    } else {
+      args.set(arg.slice(2), true);
+    }
+  }
+
+  const value = (name: string, fallback: string) => {
+    const v = args.get(name);
+    return typeof v === 'string' ? v : fallback;
+  };
+
+  return {
+    prompts: value('prompts', getMatchingPrompt().version).split(','),
+    provider: value('provider', 'offline'),
+    cases: value('cases', 'scripts/eval/match-cases.json'),
+    recordings: value('recordings', 'scripts/eval/recordings'),
+    save: !args.has('no-save'),
+    backtest: value('backtest', '') || null,
+    recipients: Number(value('recipients', '20')),
+    minFunders: Number(value('min-funders', '2')),
+    newFundersOnly: args.has('new-funders-only'),
+  };
+}
+
+type EvalOptions = ReturnType<typeof parseArgs>;
+
+/**
+ * Load the fixed cases, or build backtest cases from grants after the cut-off
+ */
+async function loadCases(options: EvalOptions): Promise<EvalCase[]> {
+  if (!options.backtest) {
+    const { cases } = JSON.parse(fs.readFileSync(options.cases, 'utf8')) as {
+      cases: EvalCase[];
+    };
+    return cases;
+  }
+
+  const cutoff = options.backtest;
+  if (Number.isNaN(Date.parse(cutoff))) {
+    throw new Error(`Invalid backtest cut-off date "${cutoff}"`);
+  }
+
+  console.log(`🔍 Finding charities funded on or after ${cutoff}...`);
+  const backtestCases = await selectBacktestCases({
+    cutoff,
+    // Some recipients drop out for lack of a usable profile
+    limit: options.recipients * 2,
+    minFunders: options.minFunders,
+    newFundersOnly: options.newFundersOnly,
+  });
+
+  const cases: EvalCase[] = [];
+  for (const backtestCase of backtestCases) {
+    if (cases.length >= options.recipients) break;
+
+    const charity = await getBacktestProfile(backtestCase.charity_number, cutoff);
+    if (!charity) continue;
+
+    cases.push({
+      name: backtestCase.recipient_org_id,
+      charity,
+      expected_funder_ids: backtestCase.expected_funder_ids,
+    });
+  }
+
+  return cases;
+}
+
+function createProvider(
+  mode: string,
+  recordingsDir: string,
+  recordingName: string
+): MatchingProvider {
+  const recording = path.join(recordingsDir, `${recordingName}.json`);
+
+  switch (mode) {
+    case 'offline':
+      return new OfflineProvider();
+    case 'recorded':
+      return new RecordedProvider(recording);
+    case 'record':
+      return new RecordedProvider(recording, new AnthropicProvider());
+    default:
+      throw new Error(`Unknown provider "${mode}"; use offline, recorded or record`);
+  }
+}
+
+function formatMetrics(metrics: RankingMetrics) {
+  const pct = (v: number) => `${Math.round(v * 100)}%`;
+  return {
+    ...Object.fromEntries(
+      EVAL_CUTOFFS.map((k) => [`recall@${k}`, pct(metrics.recall_at[k])])
+    ),
+    ...Object.fromEntries(
+      EVAL_CUTOFFS.map((k) => [`precision@${k}`, pct(metrics.precision_at[k])])
+    ),
+    mrr: metrics.mrr.toFixed(3),
+    'ndcg@10': metrics.ndcg_at_10.toFixed(3),
+    'mean rank': metrics.mean_rank?.toFixed(1) ?? '-',
+    found: `${metrics.found}/${metrics.expected}`,
+  };
+}
+
+async function evaluateMatching() {
+  const options = parseArgs(process.argv.slice(2));
+  const mode: EvaluationMode = options.backtest ? 'backtest' : 'cases';
+  const evalRunId = crypto.randomUUID();
+  const summary: Record<string, ReturnType<typeof formatMetrics>> = {};
+
+  try {
+    // Fail on unknown versions before any matching runs
+    options.prompts.forEach((version) => getMatchingPrompt(version));
+
+    const cases = await loadCases(options);
+    if (cases.length === 0) {
+      throw new Error('No evaluation cases found');
+    }
+
+    console.log(
+      `🧪 Evaluating prompts ${options.prompts.join(', ')} on ${cases.length} ${mode} cases with the ${options.provider} provider\n`
+    );
+
+    for (const promptVersion of options.prompts) {
+      const provider = createProvider(
+        options.provider,
+        options.recordings,
+        options.backtest
+          ? `backtest-${options.backtest}-${promptVersion}`
+          : promptVersion
+      );
+      setMatchingProvider(provider);
+
+      const results: RankingMetrics[] = [];
+      const perCase: Record<string, ReturnType<typeof formatMetrics>> = {};
+
+      for (const evalCase of cases) {
+        console.log(`🔄 ${promptVersion}: ${evalCase.name}`);
+
+        const matches = await matchFunders(evalCase.charity as CharityProfile, {
+          forceRefresh: true,
+          persist: false,
+          promptVersion,
+          limit: EVAL_MATCH_LIMIT,
+          asOf: options.backtest || undefined,
+        });
+        const ranked = matches.map((m) => m.funder.org_id);
+        const metrics = computeRankingMetrics(ranked, evalCase.expected_funder_ids);
+
+        results.push(metrics);
+        perCase[evalCase.name] = formatMetrics(metrics);
+
+        if (options.save) {
+          await recordEvaluationResult({
+            evalRunId,
+            mode,
+            cutoffDate: options.backtest,
+            caseName: evalCase.name,
+            promptVersion,
+            provider: provider.name,
+            model: provider.model,
+            metrics,
+            rankedFunderIds: ranked,
+            expectedFunderIds: evalCase.expected_funder_ids,
+          });
+        }
+      }
+
+      console.log(`\n📊 Prompt ${promptVersion}`);
+      console.table(perCase);
+      summary[promptVersion] = formatMetrics(averageMetrics(results));
+    }
+
+    console.log('\n📊 Average per prompt version');
+    console.table(summary);
+    console.log(
+      options.save
+        ? `\n✅ Evaluation ${evalRunId} saved to match_evaluations`
+        : '\n✅ Evaluation complete (not saved)'
+    );
+  } catch (error) {
+    console.error('\n❌ Evaluation failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+evaluateMatching();
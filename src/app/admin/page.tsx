@@ -1,11 +1,28 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Input } from '@/components/ui/input';
-import { Loader2, Database, CheckCircle, AlertCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Loader2,
+  Database,
+  CheckCircle,
+  AlertCircle,
+  DollarSign,
+  ThumbsDown,
+} from 'lucide-react';
+import type { AiSpendSummary, FunderFeedbackSummary } from '@/types';
 
 export default function AdminPage() {
   const [isSyncing, setIsSyncing] = useState(false);
@@ -175,7 +192,195 @@ export default function AdminPage() {
             )}
           </CardContent>
         </Card>
+
+        <AiSpendCard />
+
+        <FeedbackSummaryCard />
       </div>
     </div>
   );
 }
+
+function FeedbackSummaryCard() {
+  const [funders, setFunders] = useState<FunderFeedbackSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/match/feedback/summary')
+      .then((response) => response.json())
+      .then((result) => {
+        if (!result.success) throw new Error(result.error);
+        setFunders(result.funders);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      });
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ThumbsDown className="h-5 w-5" />
+          Match Feedback
+        </CardTitle>
+        <CardDescription>
+          Funders users most often mark as not relevant or ineligible
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : !funders ? (
+          <div className="flex items-center gap-2 text-sm text-zinc-600">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading feedback...
+          </div>
+        ) : funders.length === 0 ? (
+          <p className="text-sm text-zinc-600">No feedback recorded yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Funder</TableHead>
+                <TableHead>Feedback</TableHead>
+                <TableHead>Rejected</TableHead>
+                <TableHead>Avg Score</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {funders.slice(0, 20).map((funder) => (
+                <TableRow key={funder.funder_org_id}>
+                  <TableCell className="max-w-xs">
+                    <div className="font-medium">
+                      {funder.funder_name || funder.funder_org_id}
+                    </div>
+                    {funder.recent_reasons.map((reason, i) => (
+                      <p key={i} className="truncate text-xs text-zinc-500">
+                        “{reason}”
+                      </p>
+                    ))}
+                  </TableCell>
+                  <TableCell className="text-xs text-zinc-600">
+                    {funder.verdicts.relevant} relevant, {funder.verdicts.not_relevant} not relevant,{' '}
+                    {funder.verdicts.ineligible} ineligible, {funder.verdicts.already_applied} applied
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={funder.negative_rate >= 50 ? 'destructive' : 'secondary'}>
+                      {funder.negative_rate}%
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {funder.avg_match_score !== null ? `${funder.avg_match_score}%` : '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function formatUsd(amount: number) {
+  return `$${amount.toFixed(amount < 10 ? 2 : 0)}`;
+}
+
+function AiSpendCard() {
+  const [usage, setUsage] = useState<AiSpendSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/usage?days=30')
+      .then((response) => response.json())
+      .then((result) => {
+        if (!result.success) throw new Error(result.error);
+        setUsage(result.usage);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      });
+  }, []);
+
+  const maxDaily = usage ? Math.max(...usage.daily.map((d) => d.cost_usd), 0.01) : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DollarSign className="h-5 w-5" />
+          AI Spend
+        </CardTitle>
+        <CardDescription>Estimated model cost over the last 30 days (UTC)</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : !usage ? (
+          <div className="flex items-center gap-2 text-sm text-zinc-600">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading spend...
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <SpendStat label="Today" spent={usage.today} limit={usage.limits.daily} />
+              <SpendStat label="This month" spent={usage.month} limit={usage.limits.monthly} />
+            </div>
+
+            <div className="flex h-32 items-end gap-0.5">
+              {usage.daily.map((day) => (
+                <div
+                  key={day.date}
+                  className="flex-1 rounded-t bg-zinc-800"
+                  style={{ height: `${Math.max(2, (100 * day.cost_usd) / maxDaily)}%` }}
+                  title={`${day.date}: ${formatUsd(day.cost_usd)}, ${day.calls} calls, ${day.input_tokens.toLocaleString()} in / ${day.output_tokens.toLocaleString()} out tokens`}
+                />
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-zinc-500">
+              <span>{usage.daily[0]?.date}</span>
+              <span>{usage.daily[usage.daily.length - 1]?.date}</span>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function SpendStat({
+  label,
+  spent,
+  limit,
+}: {
+  label: string;
+  spent: number;
+  limit: number | null;
+}) {
+  const exhausted = limit !== null && spent >= limit;
+
+  return (
+    <div className="rounded-lg border border-zinc-200 bg-zinc-50 p-3">
+      <p className="text-sm text-zinc-600">{label}</p>
+      <p className="text-xl font-bold text-zinc-900">
+        {formatUsd(spent)}
+        {limit !== null && (
+          <span className="text-sm font-normal text-zinc-500"> / {formatUsd(limit)}</span>
+        )}
+      </p>
+      {exhausted && (
+        <Badge variant="destructive" className="mt-1">
+          Budget exhausted
+        </Badge>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { getCharityProfile, searchCharities } from "@/lib/charity-commission";
+import { searchCharities } from "@/lib/charity-commission";
+import { resolveCharityProfile } from "@/lib/manual-profiles";
 import { NextRequest, NextResponse } from "next/server";
 
 // Force dynamic rendering
@@ -17,7 +18,8 @@ export async function GET(request: NextRequest) {
     const charitySuffix = Number(charitySuffixParam);
 
     try {
-      const charity = await getCharityProfile(charityNumber, charitySuffix);
+      // Manual profile numbers load from the database, not the register
+      const charity = await resolveCharityProfile(charityNumber, charitySuffix);
 
       if (!charity) {
         return NextResponse.json(
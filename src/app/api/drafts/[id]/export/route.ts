@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getApplicationDraft } from "@/lib/ai/drafts";
+import {
+  draftFileName,
+  draftToDocx,
+  draftToMarkdown,
+} from "@/lib/draft-export";
+
+// Force dynamic rendering
+export const dynamic = "force-dynamic";
+
+const DOCX_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+/**
+ * GET /api/drafts/:id/export?format=markdown|docx
+ * Download a draft as a Markdown file (the default) or a Word document
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const { id } = await params;
+  const format = request.nextUrl.searchParams.get("format") || "markdown";
+
+  if (format !== "markdown" && format !== "docx") {
+    return NextResponse.json(
+      { success: false, error: "format must be markdown or docx" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const draft = await getApplicationDraft(id);
+
+    if (!draft) {
+      return NextResponse.json(
+        { success: false, error: `Draft not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    if (format === "docx") {
+      return new Response(new Uint8Array(await draftToDocx(draft)), {
+        headers: {
+          "Content-Type": DOCX_CONTENT_TYPE,
+          "Content-Disposition": `attachment; filename="${draftFileName(draft, "docx")}"`,
+        },
+      });
+    }
+
+    return new Response(draftToMarkdown(draft), {
+      headers: {
+        "Content-Type": "text/markdown; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${draftFileName(draft, "md")}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error in /api/drafts/[id]/export:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteApplicationDraft,
+  draftUpdateSchema,
+  getApplicationDraft,
+  updateApplicationDraft,
+} from "@/lib/ai/drafts";
+import { formatValidationError } from "@/lib/ai/match-schema";
+import type { ApplicationDraft } from "@/types";
+
+// Force dynamic rendering
+export const dynamic = "force-dynamic";
+
+interface DraftResponse {
+  success: boolean;
+  draft?: ApplicationDraft;
+  error?: string;
+}
+
+type DraftParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/drafts/:id
+ * A single application draft
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: DraftParams
+): Promise<NextResponse<DraftResponse>> {
+  const { id } = await params;
+
+  try {
+    const draft = await getApplicationDraft(id);
+
+    if (!draft) {
+      return NextResponse.json(
+        { success: false, error: `Draft not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, draft });
+  } catch (error) {
+    console.error("Error in GET /api/drafts/[id]:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/drafts/:id
+ * Save edits to a draft
+ *
+ * Body: { title, requested_amount, sections }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: DraftParams
+): Promise<NextResponse<DraftResponse>> {
+  const { id } = await params;
+
+  try {
+    const parsed = draftUpdateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid draft: ${formatValidationError(parsed.error)}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const draft = await updateApplicationDraft(id, parsed.data);
+
+    if (!draft) {
+      return NextResponse.json(
+        { success: false, error: `Draft not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, draft });
+  } catch (error) {
+    console.error("Error in PUT /api/drafts/[id]:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/drafts/:id
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: DraftParams
+): Promise<NextResponse<{ success: boolean; error?: string }>> {
+  const { id } = await params;
+
+  try {
+    if (!(await deleteApplicationDraft(id))) {
+      return NextResponse.json(
+        { success: false, error: `Draft not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error in DELETE /api/drafts/[id]:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DRAFT_UNAVAILABLE_MESSAGE,
+  generateApplicationDraft,
+  listApplicationDrafts,
+} from "@/lib/ai/drafts";
+import { isLanguageModelAvailable } from "@/lib/ai/provider";
+import type { ApplicationDraft, CharityProfile } from "@/types";
+
+// Force dynamic rendering
+export const dynamic = "force-dynamic";
+
+interface DraftRequest {
+  charityProfile: CharityProfile;
+  funder_org_id: string;
+}
+
+interface DraftResponse {
+  success: boolean;
+  draft?: ApplicationDraft;
+  budget_exhausted?: boolean;
+  error?: string;
+}
+
+/**
+ * POST /api/drafts
+ * Generate and save a first draft of a case for support to a funder, from
+ * the charity profile, the funder's grants and programmes and the match
+ * reasoning
+ *
+ * Body: { charityProfile, funder_org_id }
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<DraftResponse>> {
+  try {
+    const body: DraftRequest = await request.json();
+    const { charityProfile } = body;
+
+    if (!charityProfile?.charity_name || !charityProfile.reg_charity_number) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Charity profile must include name and registration number",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.funder_org_id !== "string" || !body.funder_org_id.trim()) {
+      return NextResponse.json(
+        { success: false, error: "funder_org_id is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!isLanguageModelAvailable()) {
+      return NextResponse.json(
+        { success: false, error: DRAFT_UNAVAILABLE_MESSAGE },
+        { status: 503 }
+      );
+    }
+
+    const draft = await generateApplicationDraft(
+      charityProfile,
+      body.funder_org_id.trim()
+    );
+
+    if (!draft) {
+      return NextResponse.json(
+        {
+          success: false,
+          budget_exhausted: true,
+          error:
+            "The AI budget has been reached, so drafts can't be generated until it resets",
+        },
+        { status: 429 }
+      );
+    }
+
+    return NextResponse.json({ success: true, draft });
+  } catch (error) {
+    console.error("Error in POST /api/drafts:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/drafts?charity_number=123&funder_org_id=GB-CHC-456
+ * List a charity's drafts, most recently edited first
+ * funder_org_id is optional
+ */
+export async function GET(request: NextRequest): Promise<
+  NextResponse<{
+    success: boolean;
+    drafts?: ApplicationDraft[];
+    error?: string;
+  }>
+> {
+  const { searchParams } = request.nextUrl;
+  const charityNumber = Number(searchParams.get("charity_number"));
+
+  if (!Number.isInteger(charityNumber) || charityNumber <= 0) {
+    return NextResponse.json(
+      { success: false, error: "charity_number is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const drafts = await listApplicationDrafts(
+      charityNumber,
+      searchParams.get("funder_org_id") || undefined
+    );
+    return NextResponse.json({ success: true, drafts });
+  } catch (error) {
+    console.error("Error in GET /api/drafts:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { searchFunders } from "@/lib/ai/matching";
+
+// Force dynamic rendering
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/funders/search?q=esmee
+ * Find funders by name or org ID
+ */
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams.get("q") || "";
+
+  if (query.trim().length < 2) {
+    return NextResponse.json(
+      { error: "Search query must be at least 2 characters" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const results = await searchFunders(query);
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Error searching funders:", error);
+    return NextResponse.json({ error: "Search failed" }, { status: 500 });
+  }
+}
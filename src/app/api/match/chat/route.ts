@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  CHAT_UNAVAILABLE_MESSAGE,
+  answerMatchQuestion,
+  chatMatchSchema,
+  chatMessageSchema,
+} from "@/lib/ai/chat";
+import { formatValidationError } from "@/lib/ai/match-schema";
+import { isLanguageModelAvailable } from "@/lib/ai/provider";
+import { trimChatHistory } from "@/lib/chat-history";
+import type { CharityProfile, ChatMessage, FunderMatch } from "@/types";
+
+// Force dynamic rendering
+export const dynamic = "force-dynamic";
+
+interface ChatRequest {
+  charityProfile: CharityProfile;
+  matches: FunderMatch[];
+  messages: ChatMessage[];
+}
+
+interface ChatResponse {
+  success: boolean;
+  message?: ChatMessage;
+  budget_exhausted?: boolean;
+  error?: string;
+}
+
+const matchesSchema = z.array(chatMatchSchema);
+
+const messagesSchema = z
+  .array(chatMessageSchema)
+  .min(1)
+  .refine((messages) => messages[messages.length - 1].role === "user", {
+    message: "The last message must be from the user",
+  })
+  // Long conversations are trimmed to the turns the model sees, not rejected
+  .transform(trimChatHistory);
+
+/**
+ * POST /api/match/chat
+ * Answer a follow-up question about a charity's matches, e.g. "which of
+ * these fund core costs?". The model can search the matched funders' grants
+ * and cites the grant IDs it relies on
+ *
+ * Body: { charityProfile, matches, messages }
+ * The conversation is kept by the client; only its most recent turns are
+ * used, so longer histories are trimmed rather than rejected
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ChatResponse>> {
+  try {
+    const body: ChatRequest = await request.json();
+    const { charityProfile } = body;
+
+    if (!charityProfile?.charity_name || !charityProfile.reg_charity_number) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Charity profile must include name and registration number",
+        },
+        { status: 400 }
+      );
+    }
+
+    const matchesResult = matchesSchema.safeParse(body.matches);
+    if (!matchesResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid matches: ${formatValidationError(matchesResult.error)}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const messagesResult = messagesSchema.safeParse(body.messages);
+    if (!messagesResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid messages: ${formatValidationError(messagesResult.error)}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!isLanguageModelAvailable()) {
+      return NextResponse.json(
+        { success: false, error: CHAT_UNAVAILABLE_MESSAGE },
+        { status: 503 }
+      );
+    }
+
+    const { message, budgetExhausted } = await answerMatchQuestion(
+      charityProfile,
+      body.matches,
+      messagesResult.data
+    );
+
+    return NextResponse.json({
+      success: true,
+      message,
+      budget_exhausted: budgetExhausted || undefined,
+    });
+  } catch (error) {
+    console.error("Error in /api/match/chat:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { explainFunderRanking } from "@/lib/ai/explain";
+import { findCachedMatches } from "@/lib/ai/matching";
+import { PRESCORE_CANDIDATE_LIMIT } from "@/lib/ai/prescoring";
+import { matchFiltersSchema } from "@/lib/match-filters";
+import { scoreWeightsSchema } from "@/lib/scoring";
+import type {
+  CharityProfile,
+  FunderExplanation,
+  MatchFilters,
+  ScoreWeights,
+} from "@/types";
+
+// Force dynamic rendering
+export const dynamic = "force-dynamic";
+
+interface ExplainRequest {
+  charityProfile: CharityProfile;
+  funder_org_id: string;
+  weights?: Partial<ScoreWeights>;
+  filters?: MatchFilters;
+}
+
+interface ExplainResponse {
+  success: boolean;
+  explanation?: FunderExplanation;
+  error?: string;
+}
+
+/**
+ * POST /api/match/explain
+ * Explain why a funder does or doesn't make a charity's top matches: its
+ * rank among all scored funders and the factors that held it back
+ * Explanations are measured against the charity's cached matches, so the
+ * charity must have been matched first; funders outside the scored
+ * candidates are scored on their own
+ *
+ * Body: { charityProfile, funder_org_id, weights?, filters? }, with the
+ * same filters as the matches being explained
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ExplainResponse>> {
+  try {
+    const body: ExplainRequest = await request.json();
+    const { charityProfile } = body;
+
+    if (!charityProfile?.charity_name || !charityProfile.reg_charity_number) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Charity profile must include name and registration number",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.funder_org_id !== "string" || !body.funder_org_id.trim()) {
+      return NextResponse.json(
+        { success: false, error: "funder_org_id is required" },
+        { status: 400 }
+      );
+    }
+
+    const weightsResult = scoreWeightsSchema.safeParse(body.weights ?? {});
+    if (!weightsResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid weights: ${weightsResult.error.issues.map((i) => `${i.path.join(".") || "weights"} ${i.message}`).join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const filtersResult = matchFiltersSchema.safeParse(body.filters ?? {});
+    if (!filtersResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid filters: ${filtersResult.error.issues.map((i) => `${i.path.join(".") || "filters"} ${i.message}`).join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Every scored funder. Matching them again here would hold the request
+    // for a full run, so the charity's matches must already be cached
+    const ranked = await findCachedMatches(charityProfile, {
+      weights: weightsResult.data,
+      filters: filtersResult.data,
+      limit: PRESCORE_CANDIDATE_LIMIT,
+    });
+
+    if (!ranked) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "This charity has no matches to explain yet. Find matching funders first",
+        },
+        { status: 409 }
+      );
+    }
+
+    const explanation = await explainFunderRanking(
+      charityProfile,
+      body.funder_org_id.trim(),
+      ranked,
+      { weights: weightsResult.data, filters: filtersResult.data }
+    );
+
+    if (!explanation) {
+      return NextResponse.json(
+        { success: false, error: `Funder not found: ${body.funder_org_id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, explanation });
+  } catch (error) {
+    console.error("Error in /api/match/explain:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
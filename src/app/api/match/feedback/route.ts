@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteMatchFeedback,
+  getMatchFeedback,
+  matchFeedbackSchema,
+  saveMatchFeedback,
+} from "@/lib/ai/feedback";
+import { formatValidationError } from "@/lib/ai/match-schema";
+import type { MatchFeedback } from "@/types";
+
+// Force dynamic rendering
+export const dynamic = "force-dynamic";
+
+interface FeedbackResponse {
+  success: boolean;
+  feedback?: MatchFeedback | MatchFeedback[];
+  error?: string;
+}
+
+/**
+ * GET /api/match/feedback?charity_number=123
+ * List a charity's feedback on recommended funders
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<FeedbackResponse>> {
+  const charityNumber = Number(
+    request.nextUrl.searchParams.get("charity_number")
+  );
+
+  if (!Number.isInteger(charityNumber) || charityNumber <= 0) {
+    return NextResponse.json(
+      { success: false, error: "charity_number is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const feedback = await getMatchFeedback(charityNumber);
+    return NextResponse.json({
+      success: true,
+      feedback: Array.from(feedback.values()),
+    });
+  } catch (error) {
+    console.error("Error in GET /api/match/feedback:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/match/feedback
+ * Mark a recommended funder as relevant, not relevant, already applied or
+ * ineligible, with an optional reason. Replaces any earlier verdict
+ *
+ * Body: { charity_number, funder_org_id, verdict, reason?, match_score? }
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<FeedbackResponse>> {
+  try {
+    const parsed = matchFeedbackSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid feedback: ${formatValidationError(parsed.error)}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const feedback = await saveMatchFeedback(parsed.data);
+    return NextResponse.json({ success: true, feedback });
+  } catch (error) {
+    console.error("Error in POST /api/match/feedback:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/match/feedback?charity_number=123&funder_org_id=GB-CHC-456
+ * Clear a charity's feedback on a funder
+ */
+export async function DELETE(
+  request: NextRequest
+): Promise<NextResponse<FeedbackResponse>> {
+  const { searchParams } = request.nextUrl;
+  const charityNumber = Number(searchParams.get("charity_number"));
+  const funderOrgId = searchParams.get("funder_org_id");
+
+  if (!Number.isInteger(charityNumber) || charityNumber <= 0 || !funderOrgId) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "charity_number and funder_org_id are required",
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await deleteMatchFeedback(charityNumber, funderOrgId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error in DELETE /api/match/feedback:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
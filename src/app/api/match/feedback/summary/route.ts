@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getFeedbackSummary } from "@/lib/ai/feedback";
+import type { FunderFeedbackSummary } from "@/types";
+
+// Force dynamic rendering
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/match/feedback/summary
+ * Feedback aggregated per funder across all charities, most often rejected
+ * first, to show which recommendations the model keeps getting wrong
+ */
+export async function GET(): Promise<
+  NextResponse<{
+    success: boolean;
+    funders?: FunderFeedbackSummary[];
+    error?: string;
+  }>
+> {
+  try {
+    const funders = await getFeedbackSummary();
+    return NextResponse.json({ success: true, funders });
+  } catch (error) {
+    console.error("Error in /api/match/feedback/summary:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMatchJob } from "@/lib/ai/match-jobs";
+import type { MatchJob } from "@/types";
+
+// Force dynamic rendering
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/match/jobs/:id
+ * A background matching job's status, latest progress and matches: those
+ * scored so far while it runs, then the final ranked matches
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<
+  NextResponse<{ success: boolean; job?: MatchJob; error?: string }>
+> {
+  const { id } = await params;
+
+  try {
+    const job = await getMatchJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: `Match job not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, job });
+  } catch (error) {
+    console.error("Error in /api/match/jobs/[id]:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
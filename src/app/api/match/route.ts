@@ -1,23 +1,45 @@
-import { NextRequest, NextResponse } from "next/server";
-import { matchFunders } from "@/lib/ai/matching";
-import type { CharityProfile, FunderMatch } from "@/types";
+import { after, NextRequest, NextResponse } from "next/server";
+import { createMatchJob, runMatchJob } from "@/lib/ai/match-jobs";
+import { getModelQueueStatus } from "@/lib/ai/model-queue";
+import { matchFiltersSchema } from "@/lib/match-filters";
+import { scoreWeightsSchema } from "@/lib/scoring";
+import type {
+  CharityProfile,
+  MatchFilters,
+  MatchJobStatus,
+  ScoreWeights,
+} from "@/types";
+
+// The job keeps running after the response, but within this same function
+// invocation and its time limit, in seconds
+export const maxDuration = 300;
+
+// Time kept back from the limit to record a job that ran out of it as failed
+const JOB_TIME_MARGIN_SECONDS = 15;
 
 interface MatchRequest {
   charityProfile: CharityProfile;
+  weights?: Partial<ScoreWeights>;
+  filters?: MatchFilters;
 }
 
 interface MatchResponse {
   success: boolean;
-  matches?: FunderMatch[];
+  job_id?: string;
+  status?: MatchJobStatus;
   error?: string;
   message?: string;
-  cached?: boolean;
 }
 
 /**
  * POST /api/match
- * Trigger AI-powered funder matching for a charity profile
+ * Start AI-powered funder matching for a charity profile as a background
+ * job, returning its ID straight away. Poll /api/match/jobs/:id for the result
  * 
+ * Body: { charityProfile, weights?, filters? }, where filters can set
+ * regions, min_grant and max_grant (GBP), active_within_months and
+ * exclude_org_ids
+ *
  * Query params:
  * - refresh=true: Bypass cache and force fresh AI analysis
  */
@@ -55,26 +77,65 @@ export async function POST(
       );
     }
 
+    // Validate optional factor weights
+    const weightsResult = scoreWeightsSchema.safeParse(body.weights ?? {});
+    if (!weightsResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid weights: ${weightsResult.error.issues.map((i) => `${i.path.join(".") || "weights"} ${i.message}`).join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+    const weights = weightsResult.data;
+
+    // Validate optional funder filters
+    const filtersResult = matchFiltersSchema.safeParse(body.filters ?? {});
+    if (!filtersResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid filters: ${filtersResult.error.issues.map((i) => `${i.path.join(".") || "filters"} ${i.message}`).join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+    const filters = filtersResult.data;
+
+    const job = await createMatchJob(charityProfile, {
+      weights,
+      forceRefresh,
+      filters,
+    });
+
     // Log the matching request
     console.log(
-      `Starting AI matching for charity: ${charityProfile.charity_name} (${charityProfile.reg_charity_number})${forceRefresh ? " [FORCE REFRESH]" : ""}`
+      `Queued AI matching job ${job.id} for charity: ${charityProfile.charity_name} (${charityProfile.reg_charity_number})${forceRefresh ? " [FORCE REFRESH]" : ""}`
     );
 
-    // Call AI matching function with cache option
-    const matches = await matchFunders(charityProfile, { forceRefresh });
-
-    // Log results
-    console.log(
-      `Found ${matches.length} matching funders for ${charityProfile.charity_name}`
+    // Run the job once the response has been sent, failing it before the
+    // function's time limit stops it part way
+    const deadline =
+      Date.now() + (maxDuration - JOB_TIME_MARGIN_SECONDS) * 1000;
+    after(() =>
+      runMatchJob(job.id, charityProfile, {
+        weights,
+        forceRefresh,
+        filters,
+        deadline,
+      })
     );
 
-    // Return successful response
-    return NextResponse.json({
-      success: true,
-      matches,
-      message: `Successfully matched ${matches.length} funders`,
-      cached: !forceRefresh, // Indicates result may be from cache
-    });
+    return NextResponse.json(
+      {
+        success: true,
+        job_id: job.id,
+        status: job.status,
+        message: `Matching queued, poll /api/match/jobs/${job.id} for the result`,
+      },
+      { status: 202 }
+    );
   } catch (error) {
     console.error("Error in /api/match:", error);
 
@@ -97,11 +158,57 @@ export async function GET(): Promise<NextResponse> {
   return NextResponse.json({
     endpoint: "/api/match",
     method: "POST",
-    description: "AI-powered funder matching for UK charities",
+    description: "AI-powered funder matching for UK charities, run as a background job",
+    jobs: {
+      endpoint: "/api/match/jobs/:id",
+      method: "GET",
+      description: `POST returns a job ID straight away with status 202. Poll the job for its status (queued, running, succeeded or failed), progress and matches. Jobs run after the response within the same function invocation, so they share its ${maxDuration}-second limit; a job that reaches it is marked failed.`,
+    },
+    filters: {
+      description: "Optional filters in the request body remove funders before candidates are chosen: regions (must have made a grant benefiting one of them), min_grant and max_grant (typical award in GBP equivalents), active_within_months (must have made a grant within them) and exclude_org_ids. Filters are part of the cache key.",
+      example: {
+        regions: ["Wales"],
+        min_grant: 5000,
+        max_grant: 50000,
+        active_within_months: 18,
+        exclude_org_ids: ["GB-CHC-123456"],
+      },
+    },
     caching: {
       enabled: true,
       ttl: "7 days",
-      description: "Results are cached based on charity details and funder list. Use ?refresh=true to bypass cache.",
+      description: "Results are cached based on charity details, funder list and filters. Entries whose funders changed in a sync are invalidated. Use ?refresh=true to bypass cache.",
+    },
+    streaming: {
+      endpoint: "/api/match/stream",
+      method: "POST",
+      description: "Same request body, returns Server-Sent Events: progress, match (one per funder as it is scored), done and error.",
+    },
+    feedback: {
+      endpoint: "/api/match/feedback",
+      methods: ["GET", "POST", "DELETE"],
+      description: "Mark a funder as relevant, not_relevant, already_applied or ineligible. Later results drop not_relevant and ineligible funders and rank relevant ones higher. Aggregates are at /api/match/feedback/summary.",
+    },
+    budget: {
+      description: "Every AI call is logged with tokens and estimated cost. When AI_DAILY_BUDGET_USD or AI_MONTHLY_BUDGET_USD is reached, finished jobs carry budget_exhausted: true and show cached or heuristic results instead of calling the model.",
+    },
+    concurrency: {
+      description: "Identical requests for a charity while a matching run is in flight share that run's result, including refreshes. Model calls across all requests are limited by AI_MAX_CONCURRENT_CALLS; a waiting request's queue_position is reported in progress events with stage \"queued\", on the stream and in job progress.",
+      queue: getModelQueueStatus(),
+    },
+    history: {
+      endpoint: "/api/match/runs?charity_number=123",
+      description: "Every fresh matching run is recorded with its inputs, model and prompt version. Compare two runs with /api/match/runs/compare?from=<id>&to=<id>.",
+    },
+    explain: {
+      endpoint: "/api/match/explain",
+      method: "POST",
+      description: "Body { charityProfile, funder_org_id, weights?, filters? }. Explains where any funder ranks for the charity and which factors held it back against its cached top matches, or 409 if the charity has no cached matches yet. Funders outside the scored candidates are scored on their own. Find org IDs with /api/funders/search?q=.",
+    },
+    chat: {
+      endpoint: "/api/match/chat",
+      method: "POST",
+      description: "Body { charityProfile, matches, messages }. Answers follow-up questions about the matches, searching the matched funders' grants as needed. Answers cite grant IDs, returned as citations. The client keeps the conversation and sends it with each question. Returns 503 when no AI model is configured.",
     },
     usage: {
       method: "POST",
@@ -118,12 +225,28 @@ export async function GET(): Promise<NextResponse> {
           CharityAoORegion: "array (optional)",
           CharityAoOLocalAuthority: "array (optional)",
         },
+        weights: {
+          mission_alignment: "number 0-100 (optional, relative weight)",
+          geographic_fit: "number 0-100 (optional)",
+          size_compatibility: "number 0-100 (optional)",
+          activity_level: "number 0-100 (optional)",
+          historical_precedent: "number 0-100 (optional)",
+        },
       },
       response: {
         success: "boolean",
-        matches: "FunderMatch[] (array of matched funders with scores)",
+        job_id: "string (poll /api/match/jobs/:id)",
+        status: "queued",
         message: "string",
-        cached: "boolean (indicates if result may be from cache)",
+      },
+      job_response: {
+        success: "boolean",
+        "job.status": "queued | running | succeeded | failed",
+        "job.progress": "latest progress event while running, e.g. { stage, message, scored, total, queue_position }",
+        "job.matches": "FunderMatch[] (those scored so far while running, then the final ranked matches: matched funders with scores, an ask_range: the interquartile range of comparable awards, with their count, and seasonality: awards by month over the last 3 years with the clusters of months in which most are made)",
+        "job.message": "string",
+        "job.cached": "boolean (indicates if result may be from cache)",
+        "job.error": "string (when failed)",
       },
     },
     example_request: {
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMatchRun } from "@/lib/ai/runs";
+import type { MatchRun } from "@/types";
+
+// Force dynamic rendering
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/match/runs/:id
+ * A single matching run with its inputs and every match it produced
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<
+  NextResponse<{ success: boolean; run?: MatchRun; error?: string }>
+> {
+  const { id } = await params;
+
+  try {
+    const run = await getMatchRun(id);
+
+    if (!run) {
+      return NextResponse.json(
+        { success: false, error: `Match run not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, run });
+  } catch (error) {
+    console.error("Error in /api/match/runs/[id]:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
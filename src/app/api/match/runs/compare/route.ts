@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { diffMatchRuns, getMatchRun } from "@/lib/ai/runs";
+import type { MatchRunDiff } from "@/types";
+
+// Force dynamic rendering
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/match/runs/compare?from=<run id>&to=<run id>
+ * Compare two runs for the same charity: funders that entered or left the
+ * top matches, score and rank changes, changed reasoning and changed inputs
+ */
+export async function GET(request: NextRequest): Promise<
+  NextResponse<{ success: boolean; diff?: MatchRunDiff; error?: string }>
+> {
+  const { searchParams } = request.nextUrl;
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+
+  if (!from || !to) {
+    return NextResponse.json(
+      { success: false, error: "from and to run IDs are required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [fromRun, toRun] = await Promise.all([
+      getMatchRun(from),
+      getMatchRun(to),
+    ]);
+
+    if (!fromRun || !toRun) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Match run not found: ${!fromRun ? from : to}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    if (fromRun.charity_number !== toRun.charity_number) {
+      return NextResponse.json(
+        { success: false, error: "Match runs belong to different charities" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      diff: diffMatchRuns(fromRun, toRun),
+    });
+  } catch (error) {
+    console.error("Error in /api/match/runs/compare:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
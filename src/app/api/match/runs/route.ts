@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listMatchRuns } from "@/lib/ai/runs";
+import type { MatchRunSummary } from "@/types";
+
+// Force dynamic rendering
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/match/runs?charity_number=123
+ * List a charity's matching runs, newest first
+ */
+export async function GET(request: NextRequest): Promise<
+  NextResponse<{
+    success: boolean;
+    runs?: MatchRunSummary[];
+    error?: string;
+  }>
+> {
+  const charityNumber = Number(
+    request.nextUrl.searchParams.get("charity_number")
+  );
+
+  if (!Number.isInteger(charityNumber) || charityNumber <= 0) {
+    return NextResponse.json(
+      { success: false, error: "charity_number is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const runs = await listMatchRuns(charityNumber);
+    return NextResponse.json({ success: true, runs });
+  } catch (error) {
+    console.error("Error in /api/match/runs:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import { matchFunders } from "@/lib/ai/matching";
+import { matchFiltersSchema } from "@/lib/match-filters";
+import { scoreWeightsSchema } from "@/lib/scoring";
+import { encodeSseEvent } from "@/lib/sse";
+import type {
+  CharityProfile,
+  MatchFilters,
+  MatchStreamEvent,
+  ScoreWeights,
+} from "@/types";
+
+// Force dynamic rendering
+export const dynamic = "force-dynamic";
+
+interface MatchRequest {
+  charityProfile: CharityProfile;
+  weights?: Partial<ScoreWeights>;
+  filters?: MatchFilters;
+}
+
+/**
+ * POST /api/match/stream
+ * Streaming variant of /api/match using Server-Sent Events
+ *
+ * Events:
+ * - progress: { stage, message, scored?, total? }
+ * - match: a single FunderMatch, sent as soon as it has been parsed
+ * - done: the final ranked matches
+ * - error: matching failed
+ *
+ * Query params:
+ * - refresh=true: Bypass cache and force fresh AI analysis
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  const { searchParams } = new URL(request.url);
+  const forceRefresh = searchParams.get("refresh") === "true";
+
+  let body: MatchRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  if (!body?.charityProfile) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Missing charity profile in request body",
+      },
+      { status: 400 }
+    );
+  }
+
+  const { charityProfile } = body;
+
+  // Validate required fields
+  if (!charityProfile.charity_name || !charityProfile.reg_charity_number) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Charity profile must include name and registration number",
+      },
+      { status: 400 }
+    );
+  }
+
+  // Validate optional factor weights
+  const weightsResult = scoreWeightsSchema.safeParse(body.weights ?? {});
+  if (!weightsResult.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Invalid weights: ${weightsResult.error.issues.map((i) => `${i.path.join(".") || "weights"} ${i.message}`).join(", ")}`,
+      },
+      { status: 400 }
+    );
+  }
+  const weights = weightsResult.data;
+
+  // Validate optional funder filters
+  const filtersResult = matchFiltersSchema.safeParse(body.filters ?? {});
+  if (!filtersResult.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Invalid filters: ${filtersResult.error.issues.map((i) => `${i.path.join(".") || "filters"} ${i.message}`).join(", ")}`,
+      },
+      { status: 400 }
+    );
+  }
+  const filters = filtersResult.data;
+
+  console.log(
+    `Starting streamed AI matching for charity: ${charityProfile.charity_name} (${charityProfile.reg_charity_number})${forceRefresh ? " [FORCE REFRESH]" : ""}`
+  );
+
+  const encoder = new TextEncoder();
+
+  // Set once the client disconnects; matching carries on for the cache
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: MatchStreamEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(encodeSseEvent(event)));
+        } catch {
+          closed = true;
+        }
+      };
+
+      try {
+        let cached = false;
+        const matches = await matchFunders(charityProfile, {
+          forceRefresh,
+          weights,
+          filters,
+          onEvent: (event) => {
+            if (
+              (event.type === "progress" && event.stage === "cached") ||
+              (event.type === "notice" && event.fallback === "cached")
+            ) {
+              cached = true;
+            }
+            send(event);
+          },
+        });
+
+        console.log(
+          `Streamed ${matches.length} matching funders for ${charityProfile.charity_name}`
+        );
+
+        send({ type: "done", matches, cached });
+      } catch (error) {
+        console.error("Error in /api/match/stream:", error);
+        send({
+          type: "error",
+          error:
+            error instanceof Error ? error.message : "Unknown error occurred",
+        });
+      } finally {
+        if (!closed) controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
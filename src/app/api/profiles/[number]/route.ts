@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { invalidateCacheForCharity } from "@/lib/ai/matching";
+import { formatValidationError } from "@/lib/ai/match-schema";
+import {
+  getManualProfile,
+  isManualProfileNumber,
+  manualProfileSchema,
+  toCharityProfile,
+  updateManualProfile,
+} from "@/lib/manual-profiles";
+import type { CharityProfile, ManualProfile } from "@/types";
+
+// Force dynamic rendering
+export const dynamic = "force-dynamic";
+
+interface ProfileResponse {
+  success: boolean;
+  profile?: ManualProfile;
+  charity?: CharityProfile;
+  error?: string;
+}
+
+type ProfileParams = { params: Promise<{ number: string }> };
+
+/**
+ * GET /api/profiles/:number
+ * A manual profile, as entered and as matching sees it
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: ProfileParams
+): Promise<NextResponse<ProfileResponse>> {
+  const profileNumber = Number((await params).number);
+
+  if (!isManualProfileNumber(profileNumber)) {
+    return NextResponse.json(
+      { success: false, error: "Not a manual profile number" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const profile = await getManualProfile(profileNumber);
+
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, error: `Profile not found: ${profileNumber}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      profile,
+      charity: toCharityProfile(profile),
+    });
+  } catch (error) {
+    console.error("Error in GET /api/profiles/[number]:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/profiles/:number
+ * Replace a manual profile's details, keeping its number, and drop its
+ * cached matches so the next run reflects the changes
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: ProfileParams
+): Promise<NextResponse<ProfileResponse>> {
+  const profileNumber = Number((await params).number);
+
+  if (!isManualProfileNumber(profileNumber)) {
+    return NextResponse.json(
+      { success: false, error: "Not a manual profile number" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const parsed = manualProfileSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid profile: ${formatValidationError(parsed.error)}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const profile = await updateManualProfile(profileNumber, parsed.data);
+
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, error: `Profile not found: ${profileNumber}` },
+        { status: 404 }
+      );
+    }
+
+    await invalidateCacheForCharity(profileNumber);
+
+    return NextResponse.json({
+      success: true,
+      profile,
+      charity: toCharityProfile(profile),
+    });
+  } catch (error) {
+    console.error("Error in PUT /api/profiles/[number]:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { formatValidationError } from "@/lib/ai/match-schema";
+import {
+  createManualProfile,
+  manualProfileSchema,
+  toCharityProfile,
+} from "@/lib/manual-profiles";
+import type { CharityProfile, ManualProfile } from "@/types";
+
+// Force dynamic rendering
+export const dynamic = "force-dynamic";
+
+interface ProfileResponse {
+  success: boolean;
+  profile?: ManualProfile;
+  // The profile as matching sees it
+  charity?: CharityProfile;
+  error?: string;
+}
+
+/**
+ * POST /api/profiles
+ * Create a profile for an organisation that isn't on the Charity Commission
+ * register. The returned profile_number is used in place of a charity number
+ *
+ * Body: { organisation_type, name, registration_number?, latest_income?,
+ *   latest_expenditure?, activities?, cause_codes, beneficiary_codes,
+ *   regions, local_authorities }
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ProfileResponse>> {
+  try {
+    const parsed = manualProfileSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid profile: ${formatValidationError(parsed.error)}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const profile = await createManualProfile(parsed.data);
+    return NextResponse.json({
+      success: true,
+      profile,
+      charity: toCharityProfile(profile),
+    });
+  } catch (error) {
+    console.error("Error in POST /api/profiles:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
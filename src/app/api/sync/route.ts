@@ -5,12 +5,19 @@ import {
   getOrganisationDetail,
   getGrantsMade,
 } from "@/lib/threesixty-giving";
+import { buildGrantIndex } from "@/lib/ai/retrieval";
+import { invalidateCacheForFunders } from "@/lib/ai/matching";
+import { clearPrescoringCache } from "@/lib/ai/prescoring";
+import { syncExchangeRates } from "@/lib/exchange-rates";
 
 interface SyncResult {
   success: boolean;
   organisations_synced: number;
   grants_synced: number;
   grants_skipped: number;
+  grants_indexed?: number;
+  exchange_rates_loaded?: number;
+  cache_entries_invalidated?: number;
   sync_type: "full" | "incremental";
   last_sync_date?: string;
   error?: string;
@@ -86,13 +93,16 @@ export async function POST(
     const logId = logEntry?.id;
 
     try {
+      // Funders whose stats or grants may have changed in this sync
+      const touchedFunders = new Set<string>();
+
       // Sync organisations (skip for incremental unless offset specified)
       let orgsSynced = 0;
       if (!syncOptions.incremental || offset > 0) {
         console.log(
           `Starting organisation sync (max: ${maxOrgs}, offset: ${offset})...`
         );
-        orgsSynced = await syncOrganisations(maxOrgs, offset);
+        orgsSynced = await syncOrganisations(maxOrgs, offset, touchedFunders);
         console.log(`✓ Synced ${orgsSynced} organisations`);
       } else {
         console.log(`⏭️ Skipping org sync for incremental update`);
@@ -101,11 +111,38 @@ export async function POST(
       // Sync grants from funders (incremental aware)
       console.log(`Starting ${syncType} grants sync (max: ${maxGrants})...`);
       const { synced: grantsSynced, skipped: grantsSkipped } =
-        await syncGrantsForFunders(syncOptions);
+        await syncGrantsForFunders(syncOptions, touchedFunders);
       console.log(
         `✓ Synced ${grantsSynced} grants, skipped ${grantsSkipped} existing`
       );
 
+      // Pre-scoring reads the new grants on the next match request
+      clearPrescoringCache();
+
+      // Load exchange rates for grants made in other currencies (a failure
+      // here keeps the previous rates)
+      let exchangeRatesLoaded: number | undefined;
+      try {
+        exchangeRatesLoaded = await syncExchangeRates();
+        console.log(`✓ Loaded ${exchangeRatesLoaded} exchange rates`);
+      } catch (error) {
+        console.error("Failed to load exchange rates:", error);
+      }
+
+      // Rebuild the retrieval index (a failure here shouldn't fail the sync)
+      let grantsIndexed: number | undefined;
+      try {
+        const index = await buildGrantIndex();
+        grantsIndexed = index.documents;
+      } catch (error) {
+        console.error("Failed to rebuild grant index:", error);
+      }
+
+      // Drop cached matches that depend on funders whose data changed
+      const cacheEntriesInvalidated = await invalidateCacheForFunders(
+        Array.from(touchedFunders)
+      );
+
       // Update log
       if (logId) {
         await supabase
@@ -124,6 +161,9 @@ export async function POST(
         organisations_synced: orgsSynced,
         grants_synced: grantsSynced,
         grants_skipped: grantsSkipped,
+        grants_indexed: grantsIndexed,
+        exchange_rates_loaded: exchangeRatesLoaded,
+        cache_entries_invalidated: cacheEntriesInvalidated,
         sync_type: syncType,
         last_sync_date: lastSyncDate || undefined,
       });
@@ -158,7 +198,11 @@ export async function POST(
   }
 }
 
-async function syncOrganisations(maxOrgs: number, offset: number = 0): Promise<number> {
+async function syncOrganisations(
+  maxOrgs: number,
+  offset: number,
+  touchedFunders: Set<string>
+): Promise<number> {
   let orgsSynced = 0;
 
   // Fetch batch with offset
@@ -187,6 +231,7 @@ async function syncOrganisations(maxOrgs: number, offset: number = 0): Promise<n
         console.error(`Error upserting org ${org.org_id}:`, error);
       } else {
         orgsSynced++;
+        if (detail.funder !== null) touchedFunders.add(org.org_id);
         console.log(
           `Synced organisation ${orgsSynced}/${maxOrgs}: ${org.name}`
         );
@@ -200,7 +245,8 @@ async function syncOrganisations(maxOrgs: number, offset: number = 0): Promise<n
 }
 
 async function syncGrantsForFunders(
-  options: SyncOptions
+  options: SyncOptions,
+  touchedFunders: Set<string>
 ): Promise<{ synced: number; skipped: number }> {
   // Get funders from database
   const { data: funders, error: fundersError } = await supabase
@@ -287,6 +333,7 @@ async function syncGrantsForFunders(
           );
         } else {
           synced++;
+          touchedFunders.add(funderOrgId);
           console.log(
             `Synced grant ${synced}/${options.maxGrants}: ${grant.title || "Untitled"}`
           );
@@ -300,6 +347,7 @@ async function syncGrantsForFunders(
           .from("organisations")
           .update({ last_grant_made_date: latestGrant.awardDate })
           .eq("org_id", funder.org_id);
+        touchedFunders.add(funder.org_id);
       }
     } catch (error) {
       console.error(`Failed to sync grants for ${funder.name}:`, error);
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAiSpendSummary } from "@/lib/ai/usage";
+import type { AiSpendSummary } from "@/types";
+
+// Force dynamic rendering
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/usage
+ * AI spend per day plus today's and this month's totals against the budget
+ *
+ * Query params:
+ * - days: Number of days of history (default: 30, max: 365)
+ */
+export async function GET(request: NextRequest): Promise<
+  NextResponse<{ success: boolean; usage?: AiSpendSummary; error?: string }>
+> {
+  const days = Math.min(
+    365,
+    Math.max(1, parseInt(request.nextUrl.searchParams.get("days") || "30", 10) || 30)
+  );
+
+  try {
+    const usage = await getAiSpendSummary(days);
+    return NextResponse.json({ success: true, usage });
+  } catch (error) {
+    console.error("Error in /api/usage:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 "use client";
 
 import { DataFreshnessIndicator } from "@/components/data-freshness-indicator";
+import { BestTimeToApply } from "@/components/funder-seasonality";
+import { MatchChat } from "@/components/match-chat";
 import {
   Accordion,
   AccordionContent,
@@ -11,17 +13,98 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { CharityProfile, FunderMatch } from "@/types";
+import { formatAmount, primaryCurrency } from "@/lib/currency";
+import { debounce } from "@/lib/debounce";
+import { describeMatchFilters, hasMatchFilters } from "@/lib/match-filters";
+import {
+  DEFAULT_SCORE_WEIGHTS,
+  EXCLUDED_FEEDBACK_VERDICTS,
+  SCORE_FACTORS,
+  rankMatches,
+} from "@/lib/scoring";
+import type {
+  AskRange,
+  CharityProfile,
+  EvidenceCitation,
+  FunderExplanation,
+  FunderMatch,
+  MatchFeedback,
+  MatchFeedbackVerdict,
+  MatchFilters,
+  MatchJob,
+  ScoreBreakdown,
+  ScoreWeights,
+} from "@/types";
 import {
   AlertCircle,
   ArrowLeft,
+  BadgeCheck,
+  Ban,
   Calendar,
   DollarSign,
+  Filter,
+  HandCoins,
+  HelpCircle,
+  History,
+  Loader2,
+  Send,
+  Search,
+  SlidersHorizontal,
   Target,
+  ThumbsDown,
+  ThumbsUp,
 } from "lucide-react";
+import NextLink from "next/link";
 import { useParams, useRouter } from "next/navigation";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+
+const FACTOR_LABELS: Record<keyof ScoreBreakdown, string> = {
+  mission_alignment: "Mission Alignment",
+  geographic_fit: "Geographic Fit",
+  size_compatibility: "Size Compatibility",
+  activity_level: "Activity Level",
+  historical_precedent: "Historical Precedent",
+};
+
+// How often to check on a background matching job
+const JOB_POLL_INTERVAL_MS = 1500;
+
+// What the comparable awards behind a suggested ask have in common
+const ASK_BASIS_LABELS: Record<AskRange["basis"], string> = {
+  size_and_cause: "to similar-sized organisations in your cause areas",
+  cause: "in your cause areas",
+  size: "to similar-sized organisations",
+  all: "across all its recipients",
+};
+
+const FEEDBACK_OPTIONS: {
+  verdict: MatchFeedbackVerdict;
+  label: string;
+  icon: React.ReactNode;
+}[] = [
+  {
+    verdict: "relevant",
+    label: "Relevant",
+    icon: <ThumbsUp className="h-3 w-3" />,
+  },
+  {
+    verdict: "not_relevant",
+    label: "Not relevant",
+    icon: <ThumbsDown className="h-3 w-3" />,
+  },
+  {
+    verdict: "already_applied",
+    label: "Already applied",
+    icon: <Send className="h-3 w-3" />,
+  },
+  {
+    verdict: "ineligible",
+    label: "Ineligible",
+    icon: <Ban className="h-3 w-3" />,
+  },
+];
 
 export default function FundersPage() {
   const params = useParams();
@@ -29,13 +112,29 @@ export default function FundersPage() {
   const [matches, setMatches] = useState<FunderMatch[]>([]);
   const [charity, setCharity] = useState<CharityProfile | null>(null);
   const [loading, setLoading] = useState(true);
+  const [progress, setProgress] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [weights, setWeights] = useState<ScoreWeights>(DEFAULT_SCORE_WEIGHTS);
+  const [filters, setFilters] = useState<MatchFilters>({});
+
+  // Re-rank on the client whenever the weights change, without another AI call
+  const rankedMatches = useMemo(
+    () => rankMatches(matches, weights),
+    [matches, weights]
+  );
 
   useEffect(() => {
+    // Stops polling when the charity changes or the page closes
+    let cancelled = false;
+
     async function fetchMatches() {
       try {
         setLoading(true);
         setError(null);
+        setMatches([]);
+        setNotice(null);
+        setProgress("Loading charity profile");
 
         // Parse charity ID
         const id = params.id as string;
@@ -51,37 +150,77 @@ export default function FundersPage() {
         }
         setCharity(charityData.charity);
 
-        // Call matching API
+        // Start a background matching job
+        setProgress("Queued for matching");
         const response = await fetch("/api/match", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify({ charityProfile: charityData.charity }),
+          body: JSON.stringify({
+            charityProfile: charityData.charity,
+            ...(hasMatchFilters(filters) && { filters }),
+          }),
         });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || "Failed to fetch matches");
+        const started = await response.json();
+        if (!started.success) {
+          throw new Error(started.error || "Failed to fetch matches");
         }
 
-        const data = await response.json();
-        setMatches(data.matches || []);
+        // Poll the job, rendering cards as they are scored, then the final
+        // ranked list
+        let job: MatchJob;
+        do {
+          await new Promise((resolve) =>
+            setTimeout(resolve, JOB_POLL_INTERVAL_MS)
+          );
+          if (cancelled) return;
+
+          const jobResponse = await fetch(`/api/match/jobs/${started.job_id}`);
+          const result = await jobResponse.json();
+          if (!result.success) {
+            throw new Error(result.error || "Failed to check matching job");
+          }
+
+          job = result.job;
+          if (job.progress) setProgress(job.progress.message);
+          if (job.matches) setMatches(job.matches);
+        } while (job.status === "queued" || job.status === "running");
+
+        if (job.status === "failed") {
+          throw new Error(job.error || "Matching failed");
+        }
+        if (job.budget_exhausted && job.message) {
+          setNotice(job.message);
+        }
       } catch (err) {
         console.error("Error fetching matches:", err);
         setError(err instanceof Error ? err.message : "Unknown error");
       } finally {
-        setLoading(false);
+        if (!cancelled) {
+          setLoading(false);
+          setProgress(null);
+        }
       }
     }
 
     fetchMatches();
-  }, [params.id]);
+    return () => {
+      cancelled = true;
+    };
+  }, [params.id, filters]);
 
-  if (loading) {
+  // Rerunning with new filters keeps the page, and its filter panel, in view
+  if (loading && matches.length === 0 && !charity) {
     return (
       <div className="container mx-auto max-w-7xl px-4 py-8">
         <Skeleton className="mb-8 h-12 w-3/4" />
+        {progress && (
+          <p className="mb-6 flex items-center gap-2 text-sm text-zinc-600">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {progress}...
+          </p>
+        )}
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
           {[1, 2, 3, 4, 5, 6].map((i) => (
             <Card key={i}>
@@ -99,7 +238,7 @@ export default function FundersPage() {
     );
   }
 
-  if (error) {
+  if (error && !charity) {
     return (
       <div className="container mx-auto max-w-4xl px-4 py-8">
         <Alert variant="destructive">
@@ -141,13 +280,64 @@ export default function FundersPage() {
             matches
           </p>
         )}
+        <NextLink
+          href={`/charity/${params.id}/history`}
+          className="mt-2 inline-flex items-center gap-1 text-sm text-zinc-600 underline-offset-4 hover:underline"
+        >
+          <History className="h-4 w-4" />
+          Compare with earlier runs
+        </NextLink>
+        {loading && progress && (
+          <p className="mt-2 flex items-center gap-2 text-sm text-zinc-600">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {progress}...
+          </p>
+        )}
       </div>
 
       {/* Data Freshness Indicator */}
       <DataFreshnessIndicator />
 
+      {/* Funder Filters */}
+      {charity && (
+        <FilterPanel filters={filters} loading={loading} onApply={setFilters} />
+      )}
+
+      {/* Matching Error */}
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error Loading Matches</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Budget Notice */}
+      {notice && (
+        <Alert className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Fresh AI Analysis Unavailable</AlertTitle>
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Factor Weights */}
+      {matches.length > 0 && (
+        <WeightControls weights={weights} onChange={setWeights} />
+      )}
+
+      {/* Why Not This Funder? */}
+      {charity && matches.length > 0 && (
+        <ExplainFunder charity={charity} weights={weights} filters={filters} />
+      )}
+
+      {/* Follow-up Questions */}
+      {charity && !loading && rankedMatches.length > 0 && (
+        <MatchChat charity={charity} matches={rankedMatches} />
+      )}
+
       {/* Empty State */}
-      {matches.length === 0 && (
+      {!loading && !error && matches.length === 0 && (
         <Alert>
           <AlertCircle className="h-4 w-4" />
           <AlertTitle>No Matches Found</AlertTitle>
@@ -165,11 +355,21 @@ export default function FundersPage() {
 
       {/* Funder Cards Grid */}
       <div className="grid gap-6 md:grid-cols-2">
-        {matches.map((match, index) => (
+        {rankedMatches.map((match, index) => (
           <FunderCard
             key={match.funder.org_id}
             match={match}
             rank={index + 1}
+            charityNumber={charity?.reg_charity_number}
+            onFeedbackChange={(feedback) =>
+              setMatches((prev) =>
+                prev.map((m) =>
+                  m.funder.org_id === match.funder.org_id
+                    ? { ...m, feedback: feedback ?? undefined }
+                    : m
+                )
+              )
+            }
           />
         ))}
       </div>
@@ -177,7 +377,428 @@ export default function FundersPage() {
   );
 }
 
-function FunderCard({ match, rank }: { match: FunderMatch; rank: number }) {
+function FilterPanel({
+  filters,
+  loading,
+  onApply,
+}: {
+  filters: MatchFilters;
+  loading: boolean;
+  onApply: (filters: MatchFilters) => void;
+}) {
+  const [regions, setRegions] = useState(filters.regions?.join(", ") || "");
+  const [minGrant, setMinGrant] = useState(filters.min_grant?.toString() || "");
+  const [maxGrant, setMaxGrant] = useState(filters.max_grant?.toString() || "");
+  const [activeWithin, setActiveWithin] = useState(
+    filters.active_within_months?.toString() || ""
+  );
+  const [excluded, setExcluded] = useState(
+    filters.exclude_org_ids?.join(", ") || ""
+  );
+
+  const toList = (value: string) =>
+    Array.from(
+      new Set(
+        value
+          .split(",")
+          .map((item) => item.trim())
+          .filter(Boolean)
+      )
+    );
+  const toNumber = (value: string) =>
+    value.trim() ? Number(value.replace(/[£,\s]/g, "")) : undefined;
+
+  function handleApply(e: React.FormEvent) {
+    e.preventDefault();
+    onApply({
+      regions: toList(regions),
+      min_grant: toNumber(minGrant),
+      max_grant: toNumber(maxGrant),
+      active_within_months: toNumber(activeWithin),
+      exclude_org_ids: toList(excluded),
+    });
+  }
+
+  function handleClear() {
+    setRegions("");
+    setMinGrant("");
+    setMaxGrant("");
+    setActiveWithin("");
+    setExcluded("");
+    if (hasMatchFilters(filters)) onApply({});
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Filter className="h-4 w-4" />
+          Only show funders that...
+        </CardTitle>
+        {hasMatchFilters(filters) && (
+          <div className="flex flex-wrap gap-2">
+            {describeMatchFilters(filters).map((phrase) => (
+              <Badge key={phrase} variant="secondary">
+                {phrase}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleApply} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div>
+              <label
+                htmlFor="filter-regions"
+                className="mb-1 block text-xs font-medium text-zinc-700"
+              >
+                Fund in (comma-separated)
+              </label>
+              <Input
+                id="filter-regions"
+                placeholder="e.g. Wales, Bristol"
+                value={regions}
+                onChange={(e) => setRegions(e.target.value)}
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="filter-min-grant"
+                className="mb-1 block text-xs font-medium text-zinc-700"
+              >
+                Typical grant from (£)
+              </label>
+              <Input
+                id="filter-min-grant"
+                inputMode="numeric"
+                placeholder="e.g. 5,000"
+                value={minGrant}
+                onChange={(e) => setMinGrant(e.target.value)}
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="filter-max-grant"
+                className="mb-1 block text-xs font-medium text-zinc-700"
+              >
+                Typical grant up to (£)
+              </label>
+              <Input
+                id="filter-max-grant"
+                inputMode="numeric"
+                placeholder="e.g. 50,000"
+                value={maxGrant}
+                onChange={(e) => setMaxGrant(e.target.value)}
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="filter-active-within"
+                className="mb-1 block text-xs font-medium text-zinc-700"
+              >
+                Made a grant in the last (months)
+              </label>
+              <Input
+                id="filter-active-within"
+                inputMode="numeric"
+                placeholder="e.g. 18"
+                value={activeWithin}
+                onChange={(e) => setActiveWithin(e.target.value)}
+              />
+            </div>
+          </div>
+          <div>
+            <label
+              htmlFor="filter-excluded"
+              className="mb-1 block text-xs font-medium text-zinc-700"
+            >
+              Exclude funder IDs (comma-separated)
+            </label>
+            <Input
+              id="filter-excluded"
+              placeholder="e.g. GB-CHC-123456"
+              value={excluded}
+              onChange={(e) => setExcluded(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" disabled={loading}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Apply Filters
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              disabled={loading}
+              onClick={handleClear}
+            >
+              Clear
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function WeightControls({
+  weights,
+  onChange,
+}: {
+  weights: ScoreWeights;
+  onChange: (weights: ScoreWeights) => void;
+}) {
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <SlidersHorizontal className="h-4 w-4" />
+            What matters most to you?
+          </CardTitle>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(DEFAULT_SCORE_WEIGHTS)}
+          >
+            Reset
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+          {SCORE_FACTORS.map((factor) => (
+            <div key={factor}>
+              <label
+                htmlFor={`weight-${factor}`}
+                className="mb-1 flex items-center justify-between text-xs"
+              >
+                <span className="font-medium text-zinc-700">
+                  {FACTOR_LABELS[factor]}
+                </span>
+                <span className="font-semibold text-zinc-900">
+                  {weights[factor]}
+                </span>
+              </label>
+              <input
+                id={`weight-${factor}`}
+                type="range"
+                min={0}
+                max={100}
+                step={5}
+                value={weights[factor]}
+                onChange={(e) =>
+                  onChange({ ...weights, [factor]: Number(e.target.value) })
+                }
+                className="w-full accent-zinc-900"
+              />
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ExplainFunder({
+  charity,
+  weights,
+  filters,
+}: {
+  charity: CharityProfile;
+  weights: ScoreWeights;
+  filters: MatchFilters;
+}) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<{ org_id: string; name: string }[]>(
+    []
+  );
+  const [searching, setSearching] = useState(false);
+  const [explaining, setExplaining] = useState(false);
+  const [explanation, setExplanation] = useState<FunderExplanation | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const searchFunders = useMemo(
+    () =>
+      debounce(async (value: string) => {
+        if (value.trim().length < 2) {
+          setResults([]);
+          return;
+        }
+
+        setSearching(true);
+        try {
+          const response = await fetch(
+            `/api/funders/search?q=${encodeURIComponent(value)}`
+          );
+          const data = await response.json();
+          setResults(response.ok && data.results ? data.results : []);
+        } catch (err) {
+          console.error("Error searching funders:", err);
+          setResults([]);
+        } finally {
+          setSearching(false);
+        }
+      }, 400),
+    []
+  );
+
+  async function explain(funderOrgId: string) {
+    try {
+      setExplaining(true);
+      setError(null);
+      setResults([]);
+
+      const response = await fetch("/api/match/explain", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          charityProfile: charity,
+          funder_org_id: funderOrgId,
+          weights,
+          ...(hasMatchFilters(filters) && { filters }),
+        }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || "Failed to explain funder ranking");
+      }
+
+      setExplanation(result.explanation);
+    } catch (err) {
+      console.error("Error explaining funder:", err);
+      setError(err instanceof Error ? err.message : "Unknown error");
+      setExplanation(null);
+    } finally {
+      setExplaining(false);
+    }
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <HelpCircle className="h-4 w-4" />
+          Why not this funder?
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-zinc-400" />
+          <Input
+            placeholder="Search for a funder by name or org ID"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              searchFunders(e.target.value);
+            }}
+            className="pl-9"
+          />
+          {searching && (
+            <Loader2 className="absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-zinc-400" />
+          )}
+        </div>
+
+        {results.length > 0 && (
+          <div className="divide-y rounded-md border border-zinc-200">
+            {results.map((funder) => (
+              <button
+                key={funder.org_id}
+                type="button"
+                onClick={() => explain(funder.org_id)}
+                className="flex w-full items-center justify-between px-3 py-2 text-left text-sm hover:bg-zinc-50"
+              >
+                <span className="font-medium text-zinc-900">{funder.name}</span>
+                <span className="text-xs text-zinc-500">{funder.org_id}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {explaining && (
+          <p className="flex items-center gap-2 text-sm text-zinc-600">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Scoring funder...
+          </p>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {explanation && !explaining && (
+          <div className="space-y-3 rounded-md bg-zinc-50 p-4">
+            <div className="flex items-center justify-between gap-2">
+              <p className="font-semibold text-zinc-900">
+                {explanation.funder.name}
+              </p>
+              {explanation.rank !== null && (
+                <Badge
+                  variant={
+                    explanation.in_top_matches ? "default" : "secondary"
+                  }
+                >
+                  #{explanation.rank} of {explanation.total}
+                </Badge>
+              )}
+            </div>
+            <p className="text-sm text-zinc-700">{explanation.summary}</p>
+
+            {explanation.held_back_by.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-semibold uppercase text-zinc-500">
+                  Compared with your top {explanation.top_count}
+                </p>
+                {explanation.held_back_by.map((shortfall) => (
+                  <div
+                    key={shortfall.factor}
+                    className="flex items-center justify-between text-sm"
+                  >
+                    <span className="text-zinc-700">
+                      {FACTOR_LABELS[shortfall.factor]}
+                    </span>
+                    <span className="text-zinc-600">
+                      {shortfall.score} vs {shortfall.benchmark}{" "}
+                      <span className="text-red-600">
+                        (−{shortfall.impact} pts)
+                      </span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {explanation.match?.reasoning && (
+              <p className="text-sm leading-relaxed text-zinc-600">
+                {explanation.match.reasoning}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function FunderCard({
+  match,
+  rank,
+  charityNumber,
+  onFeedbackChange,
+}: {
+  match: FunderMatch;
+  rank: number;
+  charityNumber?: number;
+  onFeedbackChange: (feedback: MatchFeedback | null) => void;
+}) {
+  const params = useParams();
   const router = useRouter();
   const {
     funder,
@@ -186,10 +807,25 @@ function FunderCard({ match, rank }: { match: FunderMatch; rank: number }) {
     reasoning,
     similar_charities_funded,
   } = match;
+  const [showUnverified, setShowUnverified] = useState(false);
+
+  // Only examples confirmed against the grants table are shown by default
+  const verifiedExamples = similar_charities_funded.filter((e) => e.verified);
+  const unverifiedCount =
+    similar_charities_funded.length - verifiedExamples.length;
+  const visibleExamples = showUnverified
+    ? similar_charities_funded
+    : verifiedExamples;
 
   // Calculate stats
   const totalGrants = funder.funder_stats?.aggregate?.grants || 0;
-  const avgAmount = funder.funder_stats?.aggregate?.currencies?.GBP?.avg || 0;
+  // Shown in the currency the funder gives most in, never mixed
+  const currencies = funder.funder_stats?.aggregate?.currencies;
+  const currency = primaryCurrency(currencies);
+  const avgAmount = currencies?.[currency]?.avg || 0;
+  const otherCurrencies = Object.keys(currencies || {}).filter(
+    (c) => c !== currency
+  );
   const lastGrantDate = funder.last_grant_made_date
     ? new Date(funder.last_grant_made_date).toLocaleDateString("en-GB", {
         year: "numeric",
@@ -205,8 +841,15 @@ function FunderCard({ match, rank }: { match: FunderMatch; rank: number }) {
     return "outline";
   };
 
+  // Funders marked not relevant or ineligible stay visible until reload
+  const excluded =
+    !!match.feedback &&
+    EXCLUDED_FEEDBACK_VERDICTS.includes(match.feedback.verdict);
+
   return (
-    <Card className="flex flex-col transition-shadow hover:shadow-lg">
+    <Card
+      className={`flex flex-col transition-shadow hover:shadow-lg ${excluded ? "opacity-60" : ""}`}
+    >
       <CardHeader>
         <div className="mb-2 flex items-start justify-between">
           <Badge variant="outline" className="text-xs">
@@ -237,8 +880,13 @@ function FunderCard({ match, rank }: { match: FunderMatch; rank: number }) {
               <span>Avg Grant</span>
             </div>
             <p className="font-semibold text-zinc-900">
-              £{Math.round(avgAmount).toLocaleString()}
+              {formatAmount(avgAmount, currency)}
             </p>
+            {otherCurrencies.length > 0 && (
+              <p className="text-xs text-zinc-500">
+                Also gives in {otherCurrencies.join(", ")}
+              </p>
+            )}
           </div>
           <div className="col-span-2">
             <div className="flex items-center gap-1 text-zinc-500">
@@ -247,6 +895,29 @@ function FunderCard({ match, rank }: { match: FunderMatch; rank: number }) {
             </div>
             <p className="font-semibold text-zinc-900">{lastGrantDate}</p>
           </div>
+          {match.ask_range && (
+            <div className="col-span-2">
+              <div className="flex items-center gap-1 text-zinc-500">
+                <HandCoins className="h-3 w-3" />
+                <span>Suggested Ask</span>
+              </div>
+              <p className="font-semibold text-zinc-900">
+                {match.ask_range.low === match.ask_range.high
+                  ? formatAmount(match.ask_range.median)
+                  : `${formatAmount(match.ask_range.low)} – ${formatAmount(match.ask_range.high)}`}
+              </p>
+              <p className="text-xs text-zinc-500">
+                From {match.ask_range.comparable_grants} comparable{" "}
+                {match.ask_range.comparable_grants === 1 ? "grant" : "grants"}{" "}
+                {ASK_BASIS_LABELS[match.ask_range.basis]}
+              </p>
+            </div>
+          )}
+          {match.seasonality && (
+            <div className="col-span-2">
+              <BestTimeToApply seasonality={match.seasonality} />
+            </div>
+          )}
         </div>
 
         {/* Score Breakdown Accordion */}
@@ -258,26 +929,15 @@ function FunderCard({ match, rank }: { match: FunderMatch; rank: number }) {
             <AccordionContent>
               <div className="space-y-3 pt-2">
                 {/* Each score factor */}
-                <ScoreFactor
-                  label="Mission Alignment"
-                  score={score_breakdown.mission_alignment}
-                />
-                <ScoreFactor
-                  label="Geographic Fit"
-                  score={score_breakdown.geographic_fit}
-                />
-                <ScoreFactor
-                  label="Size Compatibility"
-                  score={score_breakdown.size_compatibility}
-                />
-                <ScoreFactor
-                  label="Activity Level"
-                  score={score_breakdown.activity_level}
-                />
-                <ScoreFactor
-                  label="Historical Precedent"
-                  score={score_breakdown.historical_precedent}
-                />
+                {SCORE_FACTORS.map((factor) => (
+                  <ScoreFactor
+                    key={factor}
+                    label={FACTOR_LABELS[factor]}
+                    score={score_breakdown[factor]}
+                    evidence={match.evidence?.[factor]}
+                    funderOrgId={funder.org_id}
+                  />
+                ))}
 
                 {/* AI Reasoning */}
                 <div className="mt-4 rounded-md bg-zinc-50 p-3">
@@ -294,31 +954,63 @@ function FunderCard({ match, rank }: { match: FunderMatch; rank: number }) {
                       Similar Charities Funded:
                     </p>
                     <div className="space-y-2">
-                      {similar_charities_funded
-                        .slice(0, 3)
-                        .map((example, i) => (
-                          <div
-                            key={i}
-                            className="rounded border border-zinc-200 bg-white p-2 text-xs"
-                          >
+                      {visibleExamples.slice(0, 3).map((example, i) => (
+                        <div
+                          key={example.grant_id || i}
+                          className="rounded border border-zinc-200 bg-white p-2 text-xs"
+                        >
+                          <div className="flex items-start justify-between gap-2">
                             <p className="font-medium text-zinc-900">
                               {example.charity_name}
                             </p>
-                            <p className="text-zinc-600">
-                              £{example.grant_amount.toLocaleString()} -{" "}
-                              {new Date(example.award_date).toLocaleDateString(
-                                "en-GB",
-                                { year: "numeric", month: "short" }
-                              )}
-                            </p>
-                            {example.grant_purpose && (
-                              <p className="mt-1 text-zinc-500">
-                                {example.grant_purpose.substring(0, 80)}...
-                              </p>
+                            {example.verified ? (
+                              <BadgeCheck
+                                className="h-4 w-4 shrink-0 text-green-600"
+                                aria-label="Verified against grant records"
+                              />
+                            ) : (
+                              <Badge variant="outline" className="text-[10px]">
+                                Unverified
+                              </Badge>
                             )}
                           </div>
-                        ))}
+                          <p className="text-zinc-600">
+                            {formatAmount(
+                              example.grant_amount,
+                              example.currency
+                            )}{" "}
+                            -{" "}
+                            {new Date(example.award_date).toLocaleDateString(
+                              "en-GB",
+                              { year: "numeric", month: "short" }
+                            )}
+                          </p>
+                          {example.grant_purpose && (
+                            <p className="mt-1 text-zinc-500">
+                              {example.grant_purpose.substring(0, 80)}...
+                            </p>
+                          )}
+                        </div>
+                      ))}
+                      {visibleExamples.length === 0 && (
+                        <p className="text-xs text-zinc-500">
+                          None of the cited examples could be matched to grant
+                          records.
+                        </p>
+                      )}
                     </div>
+                    {unverifiedCount > 0 && (
+                      <Button
+                        variant="link"
+                        size="sm"
+                        className="mt-1 h-auto p-0 text-xs"
+                        onClick={() => setShowUnverified((prev) => !prev)}
+                      >
+                        {showUnverified
+                          ? "Hide unverified examples"
+                          : `Show ${unverifiedCount} unverified example${unverifiedCount === 1 ? "" : "s"}`}
+                      </Button>
+                    )}
                   </div>
                 )}
               </div>
@@ -326,9 +1018,20 @@ function FunderCard({ match, rank }: { match: FunderMatch; rank: number }) {
           </AccordionItem>
         </Accordion>
 
+        {/* Feedback */}
+        {charityNumber && (
+          <FeedbackControls
+            charityNumber={charityNumber}
+            match={match}
+            onChange={onFeedbackChange}
+          />
+        )}
+
         {/* View Details Button */}
         <Button
-          onClick={() => router.push(`/funder/${funder.org_id}`)}
+          onClick={() =>
+            router.push(`/funder/${funder.org_id}?charity=${params.id}`)
+          }
           className="w-full"
           variant="outline"
         >
@@ -339,7 +1042,151 @@ function FunderCard({ match, rank }: { match: FunderMatch; rank: number }) {
   );
 }
 
-function ScoreFactor({ label, score }: { label: string; score: number }) {
+function FeedbackControls({
+  charityNumber,
+  match,
+  onChange,
+}: {
+  charityNumber: number;
+  match: FunderMatch;
+  onChange: (feedback: MatchFeedback | null) => void;
+}) {
+  const [verdict, setVerdict] = useState<MatchFeedbackVerdict | null>(null);
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const saved = match.feedback;
+  const savedOption = FEEDBACK_OPTIONS.find(
+    (o) => o.verdict === saved?.verdict
+  );
+
+  const submit = async (method: "POST" | "DELETE") => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response =
+        method === "POST"
+          ? await fetch("/api/match/feedback", {
+              method,
+              headers: {
+                "Content-Type": "application/json",
+              },
+              body: JSON.stringify({
+                charity_number: charityNumber,
+                funder_org_id: match.funder.org_id,
+                verdict,
+                reason: reason || null,
+                match_score: match.match_score,
+              }),
+            })
+          : await fetch(
+              `/api/match/feedback?charity_number=${charityNumber}&funder_org_id=${encodeURIComponent(match.funder.org_id)}`,
+              { method }
+            );
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || "Failed to save feedback");
+      }
+
+      onChange(method === "POST" ? result.feedback : null);
+      setVerdict(null);
+      setReason("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (saved && savedOption) {
+    return (
+      <div className="rounded-md border border-zinc-200 p-3 text-xs">
+        <div className="flex items-center justify-between gap-2">
+          <Badge variant="secondary" className="gap-1">
+            {savedOption.icon}
+            {savedOption.label}
+          </Badge>
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-xs"
+            disabled={saving}
+            onClick={() => submit("DELETE")}
+          >
+            Undo
+          </Button>
+        </div>
+        {saved.reason && <p className="mt-2 text-zinc-600">{saved.reason}</p>}
+        {EXCLUDED_FEEDBACK_VERDICTS.includes(saved.verdict) && (
+          <p className="mt-2 text-zinc-500">
+            This funder will be left out of future results.
+          </p>
+        )}
+        {error && <p className="mt-2 text-red-600">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border border-zinc-200 p-3">
+      <p className="mb-2 text-xs font-medium text-zinc-700">
+        Is this funder a good match?
+      </p>
+      <div className="flex flex-wrap gap-1">
+        {FEEDBACK_OPTIONS.map((option) => (
+          <Button
+            key={option.verdict}
+            variant={verdict === option.verdict ? "default" : "outline"}
+            size="sm"
+            className="h-7 gap-1 px-2 text-xs"
+            onClick={() =>
+              setVerdict((prev) =>
+                prev === option.verdict ? null : option.verdict
+              )
+            }
+          >
+            {option.icon}
+            {option.label}
+          </Button>
+        ))}
+      </div>
+      {verdict && (
+        <div className="mt-2 flex gap-2">
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (optional)"
+            maxLength={1000}
+            className="h-8 text-xs"
+          />
+          <Button
+            size="sm"
+            className="h-8"
+            disabled={saving}
+            onClick={() => submit("POST")}
+          >
+            {saving ? <Loader2 className="h-3 w-3 animate-spin" /> : "Save"}
+          </Button>
+        </div>
+      )}
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+function ScoreFactor({
+  label,
+  score,
+  evidence = [],
+  funderOrgId,
+}: {
+  label: string;
+  score: number;
+  evidence?: EvidenceCitation[];
+  funderOrgId: string;
+}) {
   const getColor = (score: number) => {
     if (score >= 80) return "bg-green-500";
     if (score >= 60) return "bg-yellow-500";
@@ -358,6 +1205,25 @@ function ScoreFactor({ label, score }: { label: string; score: number }) {
           style={{ width: `${score}%` }}
         />
       </div>
+      {/* Cited grants, linking to the grant on the funder page */}
+      {evidence.length > 0 && (
+        <div className="mt-1.5 flex flex-wrap gap-1">
+          {evidence.map((citation) => (
+            <NextLink
+              key={citation.grant_id}
+              href={`/funder/${funderOrgId}#grant-${encodeURIComponent(citation.grant_id)}`}
+              title={citation.grant_id}
+            >
+              <Badge
+                variant="outline"
+                className="max-w-[12rem] cursor-pointer truncate text-[10px] hover:bg-zinc-100"
+              >
+                {citation.title}
+              </Badge>
+            </NextLink>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
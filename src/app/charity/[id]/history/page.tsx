@@ -0,0 +1,356 @@
+"use client";
+
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import type {
+  FunderRunChange,
+  MatchRunDiff,
+  MatchRunSummary,
+  ScoreBreakdown,
+} from "@/types";
+import { AlertCircle, ArrowDown, ArrowUp, History, Minus } from "lucide-react";
+import { useParams } from "next/navigation";
+import { useEffect, useState } from "react";
+
+const FACTOR_LABELS: Record<keyof ScoreBreakdown, string> = {
+  mission_alignment: "Mission",
+  geographic_fit: "Geography",
+  size_compatibility: "Size",
+  activity_level: "Activity",
+  historical_precedent: "Precedent",
+};
+
+function formatRunDate(date: string) {
+  return new Date(date).toLocaleDateString("en-GB", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+export default function MatchHistoryPage() {
+  const params = useParams();
+  const [runs, setRuns] = useState<MatchRunSummary[] | null>(null);
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("");
+  const [diff, setDiff] = useState<MatchRunDiff | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const charityNumber = Number((params.id as string).split("-")[0]);
+
+  useEffect(() => {
+    async function fetchRuns() {
+      try {
+        const response = await fetch(
+          `/api/match/runs?charity_number=${charityNumber}`
+        );
+        const result = await response.json();
+        if (!result.success) {
+          throw new Error(result.error || "Failed to fetch match runs");
+        }
+
+        // Compare the latest run with the one before it by default
+        setRuns(result.runs);
+        if (result.runs.length >= 2) {
+          setToId(result.runs[0].id);
+          setFromId(result.runs[1].id);
+        }
+      } catch (err) {
+        console.error("Error fetching match runs:", err);
+        setError(err instanceof Error ? err.message : "Unknown error");
+      }
+    }
+
+    fetchRuns();
+  }, [charityNumber]);
+
+  useEffect(() => {
+    if (!fromId || !toId || fromId === toId) {
+      setDiff(null);
+      return;
+    }
+
+    async function fetchDiff() {
+      try {
+        setComparing(true);
+        setError(null);
+
+        const response = await fetch(
+          `/api/match/runs/compare?from=${fromId}&to=${toId}`
+        );
+        const result = await response.json();
+        if (!result.success) {
+          throw new Error(result.error || "Failed to compare runs");
+        }
+        setDiff(result.diff);
+      } catch (err) {
+        console.error("Error comparing match runs:", err);
+        setError(err instanceof Error ? err.message : "Unknown error");
+      } finally {
+        setComparing(false);
+      }
+    }
+
+    fetchDiff();
+  }, [fromId, toId]);
+
+  if (!runs && !error) {
+    return (
+      <>
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </>
+    );
+  }
+
+  return (
+    <>
+      <div>
+        <h1 className="flex items-center gap-2 text-3xl font-bold text-zinc-900">
+          <History className="h-7 w-7" />
+          Match History
+        </h1>
+        <p className="text-zinc-600">
+          Compare two matching runs to see how the recommendations changed
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error Loading History</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {runs && runs.length < 2 && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Not Enough Runs</AlertTitle>
+          <AlertDescription>
+            {runs.length === 0
+              ? "No matching runs have been recorded for this charity yet."
+              : "Only one matching run has been recorded. Refresh the matches later to compare runs."}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {runs && runs.length >= 2 && (
+        <Card>
+          <CardContent className="grid gap-4 pt-6 sm:grid-cols-2">
+            <RunSelect
+              id="from-run"
+              label="Earlier run"
+              runs={runs}
+              value={fromId}
+              onChange={setFromId}
+            />
+            <RunSelect
+              id="to-run"
+              label="Later run"
+              runs={runs}
+              value={toId}
+              onChange={setToId}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {comparing && <Skeleton className="h-64 w-full" />}
+
+      {diff && !comparing && <RunDiff diff={diff} />}
+    </>
+  );
+}
+
+function RunSelect({
+  id,
+  label,
+  runs,
+  value,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  runs: MatchRunSummary[];
+  value: string;
+  onChange: (id: string) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <label htmlFor={id} className="text-sm font-medium text-zinc-700">
+        {label}
+      </label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="h-9 w-full rounded-md border border-zinc-200 bg-white px-3 text-sm"
+      >
+        {runs.map((run) => (
+          <option key={run.id} value={run.id}>
+            {`${formatRunDate(run.created_at)} - ${run.model} (${run.prompt_version})`}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+function RunDiff({ diff }: { diff: MatchRunDiff }) {
+  const unchanged =
+    diff.entered.length + diff.left.length + diff.changed.length === 0;
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">
+            {formatRunDate(diff.from.created_at)} →{" "}
+            {formatRunDate(diff.to.created_at)}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm text-zinc-600">
+          {diff.input_changes.length > 0 ? (
+            <ul className="list-disc space-y-1 pl-5">
+              {diff.input_changes.map((change) => (
+                <li key={change}>{change}</li>
+              ))}
+            </ul>
+          ) : (
+            <p>Both runs used the same model, prompt, data and profile.</p>
+          )}
+          <p>
+            {diff.entered.length} funders entered the top matches,{" "}
+            {diff.left.length} left and {diff.changed.length} changed.
+          </p>
+        </CardContent>
+      </Card>
+
+      {unchanged && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>No Changes</AlertTitle>
+          <AlertDescription>
+            The top matches are identical in both runs.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <ChangeSection title="New Recommendations" changes={diff.entered} />
+      <ChangeSection title="No Longer Recommended" changes={diff.left} />
+      <ChangeSection title="Changed Recommendations" changes={diff.changed} />
+    </>
+  );
+}
+
+function ChangeSection({
+  title,
+  changes,
+}: {
+  title: string;
+  changes: FunderRunChange[];
+}) {
+  if (changes.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">
+          {title} ({changes.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Accordion type="multiple" className="w-full">
+          {changes.map((change) => (
+            <AccordionItem
+              key={change.funder_org_id}
+              value={change.funder_org_id}
+            >
+              <AccordionTrigger className="text-sm hover:no-underline">
+                <div className="flex flex-1 items-center justify-between gap-2 pr-2">
+                  <span className="text-left font-medium">
+                    {change.funder_name}
+                  </span>
+                  <ScoreChange change={change} />
+                </div>
+              </AccordionTrigger>
+              <AccordionContent className="space-y-3 text-xs">
+                <p className="text-zinc-600">
+                  Rank {change.before.rank ?? "not scored"} →{" "}
+                  {change.after.rank ?? "not scored"}
+                </p>
+                {Object.keys(change.factor_changes).length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {(
+                      Object.entries(change.factor_changes) as [
+                        keyof ScoreBreakdown,
+                        number,
+                      ][]
+                    ).map(([factor, delta]) => (
+                      <Badge key={factor} variant="outline">
+                        {FACTOR_LABELS[factor]} {delta > 0 ? "+" : ""}
+                        {delta}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {change.before.reasoning && (
+                  <div className="rounded-md bg-zinc-50 p-3">
+                    <p className="font-medium text-zinc-700">Earlier run:</p>
+                    <p className="mt-1 text-zinc-600">
+                      {change.before.reasoning}
+                    </p>
+                  </div>
+                )}
+                {change.after.reasoning &&
+                  (change.reasoning_changed || !change.before.reasoning) && (
+                    <div className="rounded-md bg-zinc-50 p-3">
+                      <p className="font-medium text-zinc-700">Later run:</p>
+                      <p className="mt-1 text-zinc-600">
+                        {change.after.reasoning}
+                      </p>
+                    </div>
+                  )}
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ScoreChange({ change }: { change: FunderRunChange }) {
+  const { before, after, score_change } = change;
+
+  if (score_change === null) {
+    return (
+      <Badge variant="secondary">
+        {before.score ?? "-"}% → {after.score ?? "-"}%
+      </Badge>
+    );
+  }
+
+  const Icon =
+    score_change > 0 ? ArrowUp : score_change < 0 ? ArrowDown : Minus;
+  return (
+    <Badge
+      variant={score_change < 0 ? "outline" : "secondary"}
+      className="gap-1"
+    >
+      <Icon className="h-3 w-3" />
+      {before.score}% → {after.score}%
+    </Badge>
+  );
+}
@@ -6,13 +6,16 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Search } from "lucide-react";
+import { Pencil, Search } from "lucide-react";
 import NextLink from "next/link";
 import {
-  getCharityProfile,
   extractCauseAreas,
   extractGeographicFocus,
 } from "@/lib/charity-commission";
+import {
+  isManualProfileNumber,
+  resolveCharityProfile,
+} from "@/lib/manual-profiles";
 import { CharityProfile } from "@/types";
 import { notFound } from "next/navigation";
 
@@ -32,9 +35,9 @@ export default async function CharityProfilePage({
     notFound();
   }
 
-  let charity: CharityProfile;
+  let charity: CharityProfile | null;
   try {
-    charity = await getCharityProfile(
+    charity = await resolveCharityProfile(
       Number(registrationNumber),
       Number(suffix)
     );
@@ -43,6 +46,13 @@ export default async function CharityProfilePage({
     notFound();
   }
 
+  if (!charity) {
+    notFound();
+  }
+
+  // Hand-entered profiles have no register details to show
+  const manual = isManualProfileNumber(charity.reg_charity_number);
+
   // Extract structured data from charity profile
   const causeAreas = extractCauseAreas(charity.who_what_where);
   const geographicFocus = extractGeographicFocus(charity);
@@ -54,9 +64,19 @@ export default async function CharityProfilePage({
         <CardHeader>
           <CardTitle className="text-2xl">{charity.charity_name}</CardTitle>
           <CardDescription>
-            Registration Number: {charity.reg_charity_number}
-            {charity.group_subsid_suffix > 0 &&
-              `-${charity.group_subsid_suffix}`}
+            {manual ? (
+              <>
+                Self-reported profile, reference {charity.reg_charity_number}
+                {charity.charity_co_reg_number &&
+                  ` (registration ${charity.charity_co_reg_number})`}
+              </>
+            ) : (
+              <>
+                Registration Number: {charity.reg_charity_number}
+                {charity.group_subsid_suffix > 0 &&
+                  `-${charity.group_subsid_suffix}`}
+              </>
+            )}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
@@ -68,42 +88,54 @@ export default async function CharityProfilePage({
             </p>
           </div>
 
+          {/* Activities */}
+          {charity.activities && (
+            <div>
+              <h3 className="mb-2 font-semibold text-zinc-900">Activities</h3>
+              <p className="text-zinc-700">{charity.activities}</p>
+            </div>
+          )}
+
           {/* Contact Information */}
-          <div>
-            <h3 className="mb-2 font-semibold text-zinc-900">Contact</h3>
-            <div className="space-y-1 text-zinc-700">
-              {charity.email && <p>Email: {charity.email}</p>}
-              {charity.phone && <p>Phone: {charity.phone}</p>}
-              {charity.web && (
-                <p>
-                  Website:{" "}
-                  <NextLink
-                    href={charity.web}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-blue-600 hover:underline"
-                  >
-                    {charity.web}
-                  </NextLink>
-                </p>
-              )}
+          {!manual && (
+            <div>
+              <h3 className="mb-2 font-semibold text-zinc-900">Contact</h3>
+              <div className="space-y-1 text-zinc-700">
+                {charity.email && <p>Email: {charity.email}</p>}
+                {charity.phone && <p>Phone: {charity.phone}</p>}
+                {charity.web && (
+                  <p>
+                    Website:{" "}
+                    <NextLink
+                      href={charity.web}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:underline"
+                    >
+                      {charity.web}
+                    </NextLink>
+                  </p>
+                )}
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Address */}
-          <div>
-            <h3 className="mb-2 font-semibold text-zinc-900">Address</h3>
-            <address className="not-italic text-zinc-700">
-              {charity.address_line_one && <p>{charity.address_line_one}</p>}
-              {charity.address_line_two && <p>{charity.address_line_two}</p>}
-              {charity.address_line_three && (
-                <p>{charity.address_line_three}</p>
-              )}
-              {charity.address_line_four && <p>{charity.address_line_four}</p>}
-              {charity.address_line_five && <p>{charity.address_line_five}</p>}
-              {charity.address_post_code && <p>{charity.address_post_code}</p>}
-            </address>
-          </div>
+          {!manual && (
+            <div>
+              <h3 className="mb-2 font-semibold text-zinc-900">Address</h3>
+              <address className="not-italic text-zinc-700">
+                {charity.address_line_one && <p>{charity.address_line_one}</p>}
+                {charity.address_line_two && <p>{charity.address_line_two}</p>}
+                {charity.address_line_three && (
+                  <p>{charity.address_line_three}</p>
+                )}
+                {charity.address_line_four && <p>{charity.address_line_four}</p>}
+                {charity.address_line_five && <p>{charity.address_line_five}</p>}
+                {charity.address_post_code && <p>{charity.address_post_code}</p>}
+              </address>
+            </div>
+          )}
 
           {/* Charity Type */}
           <div>
@@ -157,6 +189,14 @@ export default async function CharityProfilePage({
             Find Funders
           </Button>
         </NextLink>
+        {manual && (
+          <NextLink href={`/profile/${charity.reg_charity_number}/edit`} passHref>
+            <Button variant="outline" size="lg">
+              <Pencil className="mr-2 h-4 w-4" />
+              Edit Profile
+            </Button>
+          </NextLink>
+        )}
         <NextLink href="/" passHref>
           <Button variant="outline" size="lg">
             Search Different Charity
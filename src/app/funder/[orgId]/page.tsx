@@ -23,8 +23,20 @@ import {
   Target,
   TrendingUp,
 } from "lucide-react";
-import type { Organisation, Grant } from "@/types";
-import { getFunderDetails } from "@/lib/ai/matching";
+import type {
+  Organisation,
+  Grant,
+  CurrencyAggregate,
+  ExchangeRates,
+  FunderSeasonality,
+} from "@/types";
+import { getFunderDetails, getFunderGrant } from "@/lib/ai/matching";
+import { aggregateByCurrency, formatAmount, toGbp } from "@/lib/currency";
+import { ApplicationDrafts } from "@/components/application-drafts";
+import {
+  BestTimeToApply,
+  SeasonalityChart,
+} from "@/components/funder-seasonality";
 
 interface FunderDetailsData {
   funder: Organisation;
@@ -32,8 +44,12 @@ interface FunderDetailsData {
   stats: {
     total_grants: number;
     avg_amount: number;
+    currencies: Record<string, CurrencyAggregate>;
+    unconverted: string[];
     date_range: { earliest: string; latest: string };
   };
+  seasonality: FunderSeasonality | null;
+  exchange_rates: ExchangeRates;
 }
 
 export default function FunderDetailPage() {
@@ -42,6 +58,10 @@ export default function FunderDetailPage() {
   const [funderData, setFunderData] = useState<FunderDetailsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Grant linked from match evidence via #grant-<id>
+  const [citedGrantId, setCitedGrantId] = useState<string | null>(null);
+  // Charity the funder was matched for via ?charity=<number>-<suffix>
+  const [charityId, setCharityId] = useState<string | null>(null);
 
   useEffect(() => {
     async function fetchFunderDetails() {
@@ -51,6 +71,32 @@ export default function FunderDetailPage() {
 
         const orgId = params.orgId as string;
         const data = await getFunderDetails(orgId);
+
+        const hash = window.location.hash;
+        const grantId = hash.startsWith("#grant-")
+          ? decodeURIComponent(hash.slice("#grant-".length))
+          : null;
+
+        // Pin a cited grant to the top if it falls outside the visible rows
+        if (
+          grantId &&
+          !data.grants.slice(0, 20).some((g) => g.grant_id === grantId)
+        ) {
+          const cited =
+            data.grants.find((g) => g.grant_id === grantId) ||
+            (await getFunderGrant(orgId, grantId));
+          if (cited) {
+            data.grants = [
+              cited,
+              ...data.grants.filter((g) => g.grant_id !== grantId),
+            ];
+          }
+        }
+
+        setCitedGrantId(grantId);
+        setCharityId(
+          new URLSearchParams(window.location.search).get("charity")
+        );
         setFunderData(data);
       } catch (err) {
         console.error("Error fetching funder details:", err);
@@ -63,6 +109,14 @@ export default function FunderDetailPage() {
     fetchFunderDetails();
   }, [params.orgId]);
 
+  // Scroll to the cited grant once the table has rendered
+  useEffect(() => {
+    if (!funderData || !citedGrantId) return;
+    document
+      .getElementById(`grant-${citedGrantId}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [funderData, citedGrantId]);
+
   if (loading) {
     return (
       <div className="container mx-auto max-w-7xl px-4 py-8">
@@ -97,7 +151,8 @@ export default function FunderDetailPage() {
     );
   }
 
-  const { funder, grants, stats } = funderData;
+  const { funder, grants, stats, seasonality, exchange_rates } = funderData;
+  const onlyGbp = Object.keys(stats.currencies).every((c) => c === "GBP");
 
   return (
     <div className="container mx-auto max-w-7xl px-4 py-8">
@@ -127,8 +182,13 @@ export default function FunderDetailPage() {
         />
         <StatCard
           icon={<DollarSign className="h-5 w-5" />}
-          label="Average Grant"
-          value={`£${Math.round(stats.avg_amount).toLocaleString()}`}
+          label={onlyGbp ? "Average Grant" : "Average Grant (GBP equivalent)"}
+          value={formatAmount(stats.avg_amount)}
+          note={
+            onlyGbp
+              ? undefined
+              : `Across ${Object.keys(stats.currencies).join(", ")}${stats.unconverted.length ? `; excludes ${stats.unconverted.join(", ")} (no exchange rate)` : ""}`
+          }
         />
         <StatCard
           icon={<Calendar className="h-5 w-5" />}
@@ -156,6 +216,24 @@ export default function FunderDetailPage() {
         />
       </div>
 
+      {/* Award Seasonality */}
+      {seasonality && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>When This Funder Makes Awards</CardTitle>
+          </CardHeader>
+          <CardContent className="grid gap-6 text-sm md:grid-cols-[1fr_2fr]">
+            <BestTimeToApply seasonality={seasonality} />
+            <SeasonalityChart seasonality={seasonality} />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Application Drafts, when viewed from a charity's matches */}
+      {charityId && (
+        <ApplicationDrafts charityId={charityId} funderOrgId={funder.org_id} />
+      )}
+
       {/* Grant History Table */}
       <Card className="mb-8">
         <CardHeader>
@@ -186,7 +264,15 @@ export default function FunderDetailPage() {
                 </TableHeader>
                 <TableBody>
                   {grants.slice(0, 20).map((grant) => (
-                    <TableRow key={grant.grant_id}>
+                    <TableRow
+                      key={grant.grant_id}
+                      id={`grant-${grant.grant_id}`}
+                      className={
+                        grant.grant_id === citedGrantId
+                          ? "bg-yellow-50 hover:bg-yellow-100"
+                          : undefined
+                      }
+                    >
                       <TableCell className="font-medium">
                         {grant.title || "Untitled Grant"}
                       </TableCell>
@@ -194,7 +280,10 @@ export default function FunderDetailPage() {
                         {grant.recipient_org_id || "Unknown"}
                       </TableCell>
                       <TableCell className="whitespace-nowrap font-semibold">
-                        £{grant.amount_awarded?.toLocaleString() || "0"}
+                        {formatAmount(
+                          grant.amount_awarded || 0,
+                          grant.currency
+                        )}
                       </TableCell>
                       <TableCell className="whitespace-nowrap text-sm">
                         {grant.award_date
@@ -223,7 +312,7 @@ export default function FunderDetailPage() {
       </Card>
 
       {/* Similar Charities Funded Section */}
-      <SimilarCharitiesSection grants={grants} />
+      <SimilarCharitiesSection grants={grants} rates={exchange_rates} />
     </div>
   );
 }
@@ -232,10 +321,12 @@ function StatCard({
   icon,
   label,
   value,
+  note,
 }: {
   icon: React.ReactNode;
   label: string;
   value: string;
+  note?: string;
 }) {
   return (
     <Card>
@@ -245,6 +336,7 @@ function StatCard({
           <div>
             <p className="text-sm text-zinc-600">{label}</p>
             <p className="text-xl font-bold text-zinc-900">{value}</p>
+            {note && <p className="text-xs text-zinc-500">{note}</p>}
           </div>
         </div>
       </CardContent>
@@ -252,7 +344,13 @@ function StatCard({
   );
 }
 
-function SimilarCharitiesSection({ grants }: { grants: Grant[] }) {
+function SimilarCharitiesSection({
+  grants,
+  rates,
+}: {
+  grants: Grant[];
+  rates: ExchangeRates;
+}) {
   // Group grants by recipient to find patterns
   const recipientGrants = grants.reduce(
     (acc, grant) => {
@@ -273,10 +371,15 @@ function SimilarCharitiesSection({ grants }: { grants: Grant[] }) {
     .map(([orgId, grants]) => ({
       orgId,
       grants,
-      totalAmount: grants.reduce((sum, g) => sum + (g.amount_awarded || 0), 0),
+      // Totals stay in each currency; GBP equivalents only set the order
+      totals: aggregateByCurrency(grants),
+      totalInGbp: grants.reduce(
+        (sum, g) => sum + (toGbp(g.amount_awarded || 0, g.currency, rates) ?? 0),
+        0
+      ),
       grantCount: grants.length,
     }))
-    .sort((a, b) => b.totalAmount - a.totalAmount)
+    .sort((a, b) => b.totalInGbp - a.totalInGbp)
     .slice(0, 10);
 
   if (topRecipients.length === 0) {
@@ -293,7 +396,7 @@ function SimilarCharitiesSection({ grants }: { grants: Grant[] }) {
       </CardHeader>
       <CardContent>
         <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-          {topRecipients.map(({ orgId, grants, totalAmount, grantCount }) => {
+          {topRecipients.map(({ orgId, grants, totals, grantCount }) => {
             const latestGrant = grants.sort(
               (a, b) =>
                 new Date(b.award_date).getTime() -
@@ -314,7 +417,11 @@ function SimilarCharitiesSection({ grants }: { grants: Grant[] }) {
                     <div className="flex items-center justify-between">
                       <span className="text-zinc-600">Total Granted:</span>
                       <span className="font-semibold text-zinc-900">
-                        £{totalAmount.toLocaleString()}
+                        {Object.entries(totals)
+                          .map(([currency, { total }]) =>
+                            formatAmount(total, currency)
+                          )
+                          .join(" + ")}
                       </span>
                     </div>
                     <div className="flex items-center justify-between">
@@ -7,6 +7,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { debounce } from "@/lib/debounce";
 import { CharitySearchResult } from "@/types";
 import { AlertCircle, Loader2, Search } from "lucide-react";
+import NextLink from "next/link";
 import { useRouter } from "next/navigation";
 import { useCallback, useState } from "react";
 
@@ -150,6 +151,15 @@ export default function Home() {
           <p className="text-sm text-zinc-500">
             Search for your charity to get started
           </p>
+          <p className="text-sm text-zinc-500">
+            Not on the Charity Commission register?{" "}
+            <NextLink
+              href="/profile/new"
+              className="text-blue-600 hover:underline"
+            >
+              Enter your organisation&apos;s details
+            </NextLink>
+          </p>
         </div>
 
         {/* Features */}
@@ -0,0 +1,38 @@
+import { ManualProfileForm } from "@/components/manual-profile-form";
+import {
+  getManualProfile,
+  isManualProfileNumber,
+} from "@/lib/manual-profiles";
+import { notFound } from "next/navigation";
+
+interface EditProfilePageProps {
+  params: Promise<{ number: string }>;
+}
+
+export default async function EditProfilePage({
+  params,
+}: EditProfilePageProps) {
+  const profileNumber = Number((await params).number);
+
+  if (!isManualProfileNumber(profileNumber)) {
+    notFound();
+  }
+
+  const profile = await getManualProfile(profileNumber);
+  if (!profile) {
+    notFound();
+  }
+
+  return (
+    <>
+      <div>
+        <h1 className="text-3xl font-bold text-zinc-900">Edit Profile</h1>
+        <p className="text-zinc-600">
+          Saving changes clears earlier matches so the next search uses them
+        </p>
+      </div>
+
+      <ManualProfileForm profile={profile} />
+    </>
+  );
+}
@@ -0,0 +1,19 @@
+import { ManualProfileForm } from "@/components/manual-profile-form";
+
+export default function NewProfilePage() {
+  return (
+    <>
+      <div>
+        <h1 className="text-3xl font-bold text-zinc-900">
+          Enter Your Organisation&apos;s Details
+        </h1>
+        <p className="text-zinc-600">
+          For CICs, community groups, Scottish and Northern Irish charities and
+          other organisations not on the Charity Commission register
+        </p>
+      </div>
+
+      <ManualProfileForm />
+    </>
+  );
+}
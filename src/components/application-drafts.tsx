@@ -0,0 +1,395 @@
+"use client";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { DRAFT_SECTIONS } from "@/lib/data";
+import type {
+  ApplicationDraft,
+  ApplicationDraftSection,
+  CharityProfile,
+} from "@/types";
+import {
+  AlertCircle,
+  Download,
+  FileText,
+  Loader2,
+  Save,
+  Sparkles,
+  Trash2,
+} from "lucide-react";
+import { useEffect, useState } from "react";
+
+const FIELD_CLASS =
+  "w-full rounded-md border border-zinc-200 bg-white px-3 py-2 text-sm leading-relaxed";
+
+/**
+ * Generate, edit and export case-for-support drafts from a charity to a
+ * funder. charityId is the "{number}-{suffix}" ID used in charity URLs
+ */
+export function ApplicationDrafts({
+  charityId,
+  funderOrgId,
+}: {
+  charityId: string;
+  funderOrgId: string;
+}) {
+  const [charity, setCharity] = useState<CharityProfile | null>(null);
+  const [drafts, setDrafts] = useState<ApplicationDraft[]>([]);
+  const [selected, setSelected] = useState<ApplicationDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchDrafts() {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const [registrationNumber, suffix] = charityId.split("-");
+        const charityResponse = await fetch(
+          `/api/charities/search?number=${Number(registrationNumber)}&suffix=${Number(suffix) || 0}`
+        );
+        const charityData = await charityResponse.json();
+        if (charityData.error) {
+          throw new Error(charityData.error);
+        }
+        setCharity(charityData.charity);
+
+        const response = await fetch(
+          `/api/drafts?charity_number=${charityData.charity.reg_charity_number}&funder_org_id=${encodeURIComponent(funderOrgId)}`
+        );
+        const result = await response.json();
+        if (!result.success) {
+          throw new Error(result.error || "Failed to load drafts");
+        }
+
+        setDrafts(result.drafts);
+        setSelected(result.drafts[0] || null);
+      } catch (err) {
+        console.error("Error loading drafts:", err);
+        setError(err instanceof Error ? err.message : "Unknown error");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchDrafts();
+  }, [charityId, funderOrgId]);
+
+  async function generate() {
+    if (
+      !charity ||
+      (dirty &&
+        !window.confirm("Discard unsaved changes to the current draft?"))
+    ) {
+      return;
+    }
+
+    try {
+      setGenerating(true);
+      setError(null);
+
+      const response = await fetch("/api/drafts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          charityProfile: charity,
+          funder_org_id: funderOrgId,
+        }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || "Failed to generate draft");
+      }
+
+      setDrafts((prev) => [result.draft, ...prev]);
+      setSelected(result.draft);
+      setDirty(false);
+    } catch (err) {
+      console.error("Error generating draft:", err);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setGenerating(false);
+    }
+  }
+
+  async function save() {
+    if (!selected) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch(`/api/drafts/${selected.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: selected.title,
+          requested_amount: selected.requested_amount,
+          sections: selected.sections,
+        }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || "Failed to save draft");
+      }
+
+      setDrafts((prev) =>
+        prev.map((d) => (d.id === result.draft.id ? result.draft : d))
+      );
+      setSelected(result.draft);
+      setDirty(false);
+    } catch (err) {
+      console.error("Error saving draft:", err);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove() {
+    if (!selected || !window.confirm(`Delete "${selected.title}"?`)) return;
+
+    try {
+      setError(null);
+
+      const response = await fetch(`/api/drafts/${selected.id}`, {
+        method: "DELETE",
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || "Failed to delete draft");
+      }
+
+      const remaining = drafts.filter((d) => d.id !== selected.id);
+      setDrafts(remaining);
+      setSelected(remaining[0] || null);
+      setDirty(false);
+    } catch (err) {
+      console.error("Error deleting draft:", err);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  }
+
+  function edit(changes: Partial<ApplicationDraft>) {
+    setSelected((prev) => (prev ? { ...prev, ...changes } : prev));
+    setDirty(true);
+  }
+
+  function editSection(section: ApplicationDraftSection, text: string) {
+    if (!selected) return;
+    edit({ sections: { ...selected.sections, [section]: text } });
+  }
+
+  function select(draft: ApplicationDraft) {
+    if (
+      dirty &&
+      !window.confirm("Discard unsaved changes to the current draft?")
+    ) {
+      return;
+    }
+    setSelected(draft);
+    setDirty(false);
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Application Drafts
+            {charity && (
+              <span className="text-sm font-normal text-zinc-500">
+                for {charity.charity_name}
+              </span>
+            )}
+          </CardTitle>
+          <Button onClick={generate} disabled={!charity || generating}>
+            {generating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Sparkles className="mr-2 h-4 w-4" />
+            )}
+            {generating ? "Drafting..." : "Generate Draft"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <p className="flex items-center gap-2 text-sm text-zinc-600">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading drafts...
+          </p>
+        ) : drafts.length === 0 ? (
+          <p className="text-sm text-zinc-600">
+            Generate a first draft of a case for support to this funder: the
+            need, your activities, outcomes, the ask and why it fits their
+            giving. You can edit and export it afterwards.
+          </p>
+        ) : (
+          <>
+            {drafts.length > 1 && (
+              <div className="flex flex-wrap gap-2">
+                {drafts.map((draft) => (
+                  <Button
+                    key={draft.id}
+                    variant={draft.id === selected?.id ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => select(draft)}
+                  >
+                    {draft.title}
+                    <Badge variant="secondary" className="ml-2 text-[10px]">
+                      {new Date(draft.updated_at).toLocaleDateString("en-GB")}
+                    </Badge>
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {selected && (
+              <div className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-[1fr_12rem]">
+                  <div className="space-y-1">
+                    <label
+                      htmlFor="draft-title"
+                      className="text-sm font-medium text-zinc-700"
+                    >
+                      Title
+                    </label>
+                    <Input
+                      id="draft-title"
+                      value={selected.title}
+                      onChange={(e) => edit({ title: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label
+                      htmlFor="draft-amount"
+                      className="text-sm font-medium text-zinc-700"
+                    >
+                      Amount requested (£)
+                    </label>
+                    <Input
+                      id="draft-amount"
+                      inputMode="numeric"
+                      value={selected.requested_amount?.toString() ?? ""}
+                      onChange={(e) => {
+                        const value = e.target.value.replace(/[£,\s]/g, "");
+                        edit({
+                          requested_amount:
+                            value && Number.isFinite(Number(value))
+                              ? Number(value)
+                              : null,
+                        });
+                      }}
+                    />
+                  </div>
+                </div>
+
+                {(
+                  Object.entries(DRAFT_SECTIONS) as [
+                    ApplicationDraftSection,
+                    string,
+                  ][]
+                ).map(([section, heading]) => (
+                  <div key={section} className="space-y-1">
+                    <label
+                      htmlFor={`draft-${section}`}
+                      className="text-sm font-semibold text-zinc-900"
+                    >
+                      {heading}
+                    </label>
+                    <textarea
+                      id={`draft-${section}`}
+                      rows={6}
+                      value={selected.sections[section]}
+                      onChange={(e) => editSection(section, e.target.value)}
+                      className={FIELD_CLASS}
+                    />
+                  </div>
+                ))}
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button onClick={save} disabled={!dirty || saving}>
+                    {saving ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Save className="mr-2 h-4 w-4" />
+                    )}
+                    Save Changes
+                  </Button>
+                  {/* Exports are of the saved draft */}
+                  <ExportButton
+                    href={`/api/drafts/${selected.id}/export?format=markdown`}
+                    label="Markdown"
+                    disabled={dirty}
+                  />
+                  <ExportButton
+                    href={`/api/drafts/${selected.id}/export?format=docx`}
+                    label="Word"
+                    disabled={dirty}
+                  />
+                  <Button
+                    variant="ghost"
+                    onClick={remove}
+                    className="ml-auto text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete
+                  </Button>
+                </div>
+                {dirty && (
+                  <p className="text-xs text-zinc-500">
+                    Save your changes to export them.
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ExportButton({
+  href,
+  label,
+  disabled,
+}: {
+  href: string;
+  label: string;
+  disabled: boolean;
+}) {
+  if (disabled) {
+    return (
+      <Button variant="outline" disabled>
+        <Download className="mr-2 h-4 w-4" />
+        {label}
+      </Button>
+    );
+  }
+
+  return (
+    <Button variant="outline" asChild>
+      <a href={href}>
+        <Download className="mr-2 h-4 w-4" />
+        {label}
+      </a>
+    </Button>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import {
+  formatMonths,
+  monthName,
+  nextApplicationWindow,
+} from "@/lib/seasonality";
+import type { FunderSeasonality } from "@/types";
+import { CalendarClock } from "lucide-react";
+
+/**
+ * When to apply for the funder's next decision cluster, or that its awards
+ * are spread through the year
+ */
+export function BestTimeToApply({
+  seasonality,
+}: {
+  seasonality: FunderSeasonality | null | undefined;
+}) {
+  if (!seasonality) return null;
+
+  const applyWindow = nextApplicationWindow(seasonality);
+
+  return (
+    <div>
+      <div className="flex items-center gap-1 text-zinc-500">
+        <CalendarClock className="h-3 w-3" />
+        <span>Best Time to Apply</span>
+      </div>
+      {applyWindow ? (
+        <>
+          <p className="font-semibold text-zinc-900">
+            {applyWindow.opens_in === 0
+              ? `Now, for decisions in ${formatMonths(applyWindow.decision_months)}`
+              : `${formatMonths(applyWindow.apply_months)}, for decisions in ${formatMonths(applyWindow.decision_months)}`}
+          </p>
+          <p className="text-xs text-zinc-500">
+            {Math.round(applyWindow.share * 100)}% of awards since{" "}
+            {new Date(seasonality.from).getFullYear()} were made in{" "}
+            {formatMonths(applyWindow.decision_months)}
+          </p>
+        </>
+      ) : (
+        <p className="font-semibold text-zinc-900">
+          Any time: awards are spread through the year
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Awards by calendar month, with decision clusters highlighted
+ */
+export function SeasonalityChart({
+  seasonality,
+}: {
+  seasonality: FunderSeasonality;
+}) {
+  const busiest = Math.max(...seasonality.monthly_awards, 1);
+  const clusterMonths = new Set(seasonality.clusters.flatMap((c) => c.months));
+
+  return (
+    <div>
+      <div className="flex h-24 items-end gap-1">
+        {seasonality.monthly_awards.map((awards, month) => (
+          <div
+            key={month}
+            className="flex flex-1 flex-col items-center justify-end gap-1"
+            title={`${monthName(month)}: ${awards} ${awards === 1 ? "award" : "awards"}`}
+          >
+            <div
+              className={`w-full rounded-sm ${clusterMonths.has(month) ? "bg-zinc-900" : "bg-zinc-300"}`}
+              style={{ height: `${(80 * awards) / busiest}px` }}
+            />
+            <span className="text-[10px] text-zinc-500">
+              {monthName(month)}
+            </span>
+          </div>
+        ))}
+      </div>
+      <p className="mt-2 text-xs text-zinc-500">
+        {seasonality.grants} awards from {seasonality.from} to{" "}
+        {seasonality.to}. Darker months are when most decisions are made.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+"use client";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { CLASSIFICATION_CODE_MAP } from "@/lib/charity-commission";
+import {
+  BENEFICIARY_CLASSIFICATIONS,
+  MANUAL_ORGANISATION_TYPES,
+  UK_REGIONS,
+} from "@/lib/data";
+import type { ManualOrganisationType, ManualProfile } from "@/types";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+const FIELD_CLASS =
+  "w-full rounded-md border border-zinc-200 bg-white px-3 py-2 text-sm";
+
+/**
+ * Form for creating or editing a profile for an organisation that isn't on
+ * the Charity Commission register. Saving opens the profile page
+ */
+export function ManualProfileForm({ profile }: { profile?: ManualProfile }) {
+  const router = useRouter();
+  const [organisationType, setOrganisationType] =
+    useState<ManualOrganisationType>(
+      profile?.organisation_type || "community_group"
+    );
+  const [name, setName] = useState(profile?.name || "");
+  const [registrationNumber, setRegistrationNumber] = useState(
+    profile?.registration_number || ""
+  );
+  const [income, setIncome] = useState(profile?.latest_income?.toString() || "");
+  const [expenditure, setExpenditure] = useState(
+    profile?.latest_expenditure?.toString() || ""
+  );
+  const [activities, setActivities] = useState(profile?.activities || "");
+  const [causeCodes, setCauseCodes] = useState<string[]>(
+    profile?.cause_codes || []
+  );
+  const [beneficiaryCodes, setBeneficiaryCodes] = useState<string[]>(
+    profile?.beneficiary_codes || []
+  );
+  const [regions, setRegions] = useState<string[]>(profile?.regions || []);
+  const [localAuthorities, setLocalAuthorities] = useState(
+    profile?.local_authorities.join(", ") || ""
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toNumber = (value: string) =>
+    value.trim() ? Number(value.replace(/[£,\s]/g, "")) : null;
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch(
+        profile ? `/api/profiles/${profile.profile_number}` : "/api/profiles",
+        {
+          method: profile ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            organisation_type: organisationType,
+            name,
+            registration_number: registrationNumber || null,
+            latest_income: toNumber(income),
+            latest_expenditure: toNumber(expenditure),
+            activities: activities || null,
+            cause_codes: causeCodes,
+            beneficiary_codes: beneficiaryCodes,
+            regions,
+            local_authorities: localAuthorities
+              .split(",")
+              .map((la) => la.trim())
+              .filter(Boolean),
+          }),
+        }
+      );
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || "Failed to save profile");
+      }
+
+      router.push(`/charity/${result.profile.profile_number}-0`);
+    } catch (err) {
+      console.error("Error saving profile:", err);
+      setError(err instanceof Error ? err.message : "Unknown error");
+      setSaving(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <Card>
+        <CardContent className="space-y-4 pt-6">
+          <Field id="organisation-type" label="Organisation type">
+            <select
+              id="organisation-type"
+              value={organisationType}
+              onChange={(e) =>
+                setOrganisationType(e.target.value as ManualOrganisationType)
+              }
+              className={FIELD_CLASS}
+            >
+              {Object.entries(MANUAL_ORGANISATION_TYPES).map(
+                ([type, label]) => (
+                  <option key={type} value={type}>
+                    {label}
+                  </option>
+                )
+              )}
+            </select>
+          </Field>
+          <Field id="name" label="Organisation name">
+            <Input
+              id="name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </Field>
+          <Field
+            id="registration-number"
+            label="Company, OSCR or CCNI number (optional)"
+          >
+            <Input
+              id="registration-number"
+              value={registrationNumber}
+              onChange={(e) => setRegistrationNumber(e.target.value)}
+            />
+          </Field>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <Field id="income" label="Annual income (£)">
+              <Input
+                id="income"
+                inputMode="numeric"
+                value={income}
+                onChange={(e) => setIncome(e.target.value)}
+              />
+            </Field>
+            <Field id="expenditure" label="Annual expenditure (£)">
+              <Input
+                id="expenditure"
+                inputMode="numeric"
+                value={expenditure}
+                onChange={(e) => setExpenditure(e.target.value)}
+              />
+            </Field>
+          </div>
+          <Field id="activities" label="What your organisation does">
+            <textarea
+              id="activities"
+              rows={4}
+              value={activities}
+              onChange={(e) => setActivities(e.target.value)}
+              className={FIELD_CLASS}
+            />
+          </Field>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="space-y-6 pt-6">
+          <CheckboxGroup
+            legend="Cause areas"
+            options={Object.entries(CLASSIFICATION_CODE_MAP)}
+            selected={causeCodes}
+            onChange={setCauseCodes}
+          />
+          <CheckboxGroup
+            legend="Beneficiaries"
+            options={Object.entries(BENEFICIARY_CLASSIFICATIONS)}
+            selected={beneficiaryCodes}
+            onChange={setBeneficiaryCodes}
+          />
+          <CheckboxGroup
+            legend="Regions you work in"
+            options={UK_REGIONS.map((region) => [region, region])}
+            selected={regions}
+            onChange={setRegions}
+          />
+          <Field
+            id="local-authorities"
+            label="Local authorities (comma separated, optional)"
+          >
+            <Input
+              id="local-authorities"
+              placeholder="e.g. Glasgow City, Belfast"
+              value={localAuthorities}
+              onChange={(e) => setLocalAuthorities(e.target.value)}
+            />
+          </Field>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button type="submit" size="lg" className="w-full" disabled={saving}>
+        {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {profile ? "Save Changes" : "Save Profile"}
+      </Button>
+    </form>
+  );
+}
+
+function Field({
+  id,
+  label,
+  children,
+}: {
+  id: string;
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="space-y-1">
+      <label htmlFor={id} className="text-sm font-medium text-zinc-700">
+        {label}
+      </label>
+      {children}
+    </div>
+  );
+}
+
+function CheckboxGroup({
+  legend,
+  options,
+  selected,
+  onChange,
+}: {
+  legend: string;
+  options: [value: string, label: string][];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}) {
+  const toggle = (value: string) =>
+    onChange(
+      selected.includes(value)
+        ? selected.filter((v) => v !== value)
+        : [...selected, value]
+    );
+
+  return (
+    <fieldset>
+      <legend className="mb-2 text-sm font-medium text-zinc-700">
+        {legend}
+      </legend>
+      <div className="grid gap-2 sm:grid-cols-2">
+        {options.map(([value, label]) => (
+          <label
+            key={value}
+            className="flex items-center gap-2 text-sm text-zinc-700"
+          >
+            <input
+              type="checkbox"
+              checked={selected.includes(value)}
+              onChange={() => toggle(value)}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+}
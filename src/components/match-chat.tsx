@@ -0,0 +1,175 @@
+"use client";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { trimChatHistory } from "@/lib/chat-history";
+import type { CharityProfile, ChatMessage, FunderMatch } from "@/types";
+import { AlertCircle, Loader2, MessageSquare, Send } from "lucide-react";
+import NextLink from "next/link";
+import { useState } from "react";
+
+const SUGGESTED_QUESTIONS = [
+  "Which of these fund core costs?",
+  "Who funds capital projects under £20k?",
+  "Which funders have been most active in the last year?",
+];
+
+/**
+ * Chat panel for follow-up questions about a charity's matches
+ * The conversation lives here and is sent with each question
+ */
+export function MatchChat({
+  charity,
+  matches,
+}: {
+  charity: CharityProfile;
+  matches: FunderMatch[];
+}) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState("");
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function ask(question: string) {
+    if (!question.trim() || sending) return;
+
+    const conversation: ChatMessage[] = [
+      ...messages,
+      { role: "user", content: question.trim() },
+    ];
+
+    try {
+      setSending(true);
+      setError(null);
+      setMessages(conversation);
+      setInput("");
+
+      const response = await fetch("/api/match/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          charityProfile: charity,
+          matches,
+          // Citations are for display only, and the model only sees the
+          // most recent turns
+          messages: trimChatHistory(conversation).map(({ role, content }) => ({
+            role,
+            content,
+          })),
+        }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || "Failed to answer question");
+      }
+
+      setMessages([...conversation, result.message]);
+    } catch (err) {
+      console.error("Error asking about matches:", err);
+      setError(err instanceof Error ? err.message : "Unknown error");
+      // Drop the unanswered question so it can be asked again
+      setMessages(messages);
+      setInput(question);
+    } finally {
+      setSending(false);
+    }
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <MessageSquare className="h-4 w-4" />
+          Ask about these funders
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {messages.length === 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {SUGGESTED_QUESTIONS.map((question) => (
+              <Button
+                key={question}
+                variant="outline"
+                size="sm"
+                onClick={() => ask(question)}
+                disabled={sending}
+              >
+                {question}
+              </Button>
+            ))}
+          </div>
+        ) : (
+          <div className="max-h-[28rem] space-y-3 overflow-y-auto">
+            {messages.map((message, index) => (
+              <div
+                key={index}
+                className={
+                  message.role === "user"
+                    ? "ml-auto max-w-[85%] rounded-lg bg-zinc-900 px-3 py-2 text-sm text-white"
+                    : "max-w-[85%] rounded-lg bg-zinc-100 px-3 py-2 text-sm text-zinc-800"
+                }
+              >
+                <p className="whitespace-pre-wrap leading-relaxed">
+                  {message.content}
+                </p>
+                {/* Cited grants, linking to the grant on the funder page */}
+                {message.citations && message.citations.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {message.citations.map((citation) => (
+                      <NextLink
+                        key={citation.grant_id}
+                        href={`/funder/${citation.funder_org_id}#grant-${encodeURIComponent(citation.grant_id)}`}
+                        title={citation.grant_id}
+                      >
+                        <Badge
+                          variant="outline"
+                          className="max-w-[14rem] cursor-pointer truncate bg-white text-[10px] hover:bg-zinc-50"
+                        >
+                          {citation.title}
+                        </Badge>
+                      </NextLink>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+            {sending && (
+              <p className="flex items-center gap-2 text-sm text-zinc-600">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Checking grant records...
+              </p>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            ask(input);
+          }}
+          className="flex gap-2"
+        >
+          <Input
+            placeholder="e.g. Which of these fund salaries?"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            disabled={sending}
+          />
+          <Button type="submit" disabled={sending || !input.trim()}>
+            <Send className="h-4 w-4" />
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
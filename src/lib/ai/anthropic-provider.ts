@@ -0,0 +1,94 @@
+import { CLAUDE_MODEL, getClaudeClient, testClaudeConnection } from "./claude-client";
+import { MATCH_TOOL_NAME, getMatchTool } from "./match-schema";
+import type { MatchGenerationRequest, MatchingProvider } from "./provider";
+import { recordAiUsage } from "./usage";
+
+/**
+ * Matching provider backed by Claude, using forced tool use for structured output
+ */
+export class AnthropicProvider implements MatchingProvider {
+  readonly name = "anthropic";
+  readonly model = CLAUDE_MODEL;
+  readonly costsTokens = true;
+
+  async generateMatches(request: MatchGenerationRequest): Promise<unknown> {
+    const claude = getClaudeClient();
+
+    const content = request.retryErrors?.length
+      ? `${request.prompt}
+
+---
+
+Your previous response could not be used. Fix these problems and call ${MATCH_TOOL_NAME} again with every funder you scored:
+${request.retryErrors.join("\n")}`
+      : request.prompt;
+
+    const stream = claude.messages.stream({
+      model: this.model,
+      max_tokens: 8000,
+      temperature: 0.3,
+      system: request.system,
+      tools: [getMatchTool()],
+      tool_choice: { type: "tool", name: MATCH_TOOL_NAME },
+      messages: [
+        {
+          role: "user",
+          content,
+        },
+      ],
+    });
+
+    if (request.onPartial) {
+      stream.on("inputJson", (_delta, snapshot) => request.onPartial?.(snapshot));
+    }
+
+    const startedAt = Date.now();
+    const usageEntry = {
+      operation: "match" as const,
+      provider: this.name,
+      model: this.model,
+      charityNumber: request.charity.reg_charity_number,
+      cacheMiss: request.cacheMiss ?? true,
+    };
+
+    let response;
+    try {
+      response = await stream.finalMessage();
+    } catch (error) {
+      await recordAiUsage({
+        ...usageEntry,
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    await recordAiUsage({
+      ...usageEntry,
+      usage: response.usage,
+      latencyMs: Date.now() - startedAt,
+    });
+
+    const toolUse = response.content.find(
+      (block) => block.type === "tool_use" && block.name === MATCH_TOOL_NAME
+    );
+    if (toolUse && toolUse.type === "tool_use") {
+      return toolUse.input;
+    }
+
+    // Fall back to JSON in a text block, from markdown code blocks if present
+    const textContent = response.content.find((block) => block.type === "text");
+    const responseText = textContent?.type === "text" ? textContent.text : "";
+    const jsonMatch = responseText.match(/```(?:json)?\s*\n([\s\S]*?)\n```/);
+
+    try {
+      return JSON.parse(jsonMatch ? jsonMatch[1] : responseText);
+    } catch {
+      return undefined;
+    }
+  }
+
+  testConnection(): Promise<boolean> {
+    return testClaudeConnection();
+  }
+}
@@ -0,0 +1,203 @@
+import { toGbp } from "@/lib/currency";
+import { getExchangeRates } from "@/lib/exchange-rates";
+import { supabase } from "@/lib/supabase";
+import type {
+  AskRange,
+  CharityProfile,
+  ExchangeRates,
+  FunderMatch,
+  Grant,
+} from "@/types";
+import {
+  buildCharitySignals,
+  mentionsCharityCauses,
+  type CharitySignals,
+} from "./prescoring";
+
+// Supabase returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+// Funder IDs per .in() filter, keeping request URLs short
+const FUNDER_CHUNK_SIZE = 100;
+
+// Recipients with income within this factor of the charity's count as
+// similar in size
+const INCOME_SIMILARITY_FACTOR = 3;
+
+// Fewest comparable awards a basis needs before a looser one is tried
+const MIN_COMPARABLE_GRANTS = 5;
+
+type AwardRow = Pick<
+  Grant,
+  | "funder_org_id"
+  | "amount_awarded"
+  | "currency"
+  | "title"
+  | "description"
+  | "classifications"
+  | "grant_programme"
+> & {
+  recipient_income: string | null;
+};
+
+/**
+ * Add a suggested ask range to each match: the 25th to 75th percentile of
+ * the funder's awards, in GBP equivalents, to recipients of similar income
+ * and cause
+ * Failures are logged and the matches returned without ranges, so the
+ * suggestion never breaks matching
+ * @param options - asOf to use only awards made before that date
+ */
+export async function attachAskRanges(
+  charityProfile: CharityProfile,
+  matches: FunderMatch[],
+  options: { asOf?: string } = {}
+): Promise<FunderMatch[]> {
+  if (matches.length === 0) return matches;
+
+  try {
+    const awards = await fetchAwardsByFunder(
+      matches.map((m) => m.funder.org_id),
+      options.asOf
+    );
+    const signals = buildCharitySignals(charityProfile);
+    const rates = await getExchangeRates();
+
+    return matches.map((match) => ({
+      ...match,
+      ask_range: computeAskRange(
+        signals,
+        convertAwards(awards.get(match.funder.org_id) || [], rates)
+      ),
+    }));
+  } catch (error) {
+    console.warn("⚠️ Could not calculate ask ranges:", error);
+    return matches;
+  }
+}
+
+/**
+ * Express each award in GBP, dropping those in currencies without a rate
+ */
+function convertAwards(awards: AwardRow[], rates: ExchangeRates): AwardRow[] {
+  return awards.flatMap((award) => {
+    const amount = toGbp(Number(award.amount_awarded), award.currency, rates);
+    return amount === null
+      ? []
+      : [{ ...award, amount_awarded: amount, currency: "GBP" }];
+  });
+}
+
+/**
+ * Pick the most specific set of comparable awards that has enough of them,
+ * and take its interquartile range
+ */
+function computeAskRange(
+  signals: CharitySignals,
+  awards: AwardRow[]
+): AskRange | null {
+  if (awards.length === 0) return null;
+
+  const similarSize = (award: AwardRow) => {
+    const income = Number(award.recipient_income);
+    return (
+      signals.income > 0 &&
+      income > 0 &&
+      income >= signals.income / INCOME_SIMILARITY_FACTOR &&
+      income <= signals.income * INCOME_SIMILARITY_FACTOR
+    );
+  };
+  const similarCause = (award: AwardRow) =>
+    mentionsCharityCauses(signals, award);
+
+  const bases: [AskRange["basis"], AwardRow[]][] = [
+    ["size_and_cause", awards.filter((a) => similarSize(a) && similarCause(a))],
+    ["cause", awards.filter(similarCause)],
+    ["size", awards.filter(similarSize)],
+    ["all", awards],
+  ];
+  const [basis, comparable] =
+    bases.find(([, set]) => set.length >= MIN_COMPARABLE_GRANTS) ||
+    bases[bases.length - 1];
+
+  const amounts = comparable
+    .map((a) => Number(a.amount_awarded))
+    .sort((a, b) => a - b);
+
+  return {
+    low: roundAmount(percentile(amounts, 0.25)),
+    median: roundAmount(percentile(amounts, 0.5)),
+    high: roundAmount(percentile(amounts, 0.75)),
+    comparable_grants: amounts.length,
+    basis,
+  };
+}
+
+/**
+ * Fetch the funders' awards with the recipient's latest income, where the
+ * 360Giving data carries it, grouped by funder
+ */
+async function fetchAwardsByFunder(
+  funderOrgIds: string[],
+  before?: string
+): Promise<Map<string, AwardRow[]>> {
+  const awardsByFunder = new Map<string, AwardRow[]>();
+
+  for (let i = 0; i < funderOrgIds.length; i += FUNDER_CHUNK_SIZE) {
+    const chunk = funderOrgIds.slice(i, i + FUNDER_CHUNK_SIZE);
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from("grants")
+        .select(
+          "funder_org_id, amount_awarded, currency, title, description, classifications, grant_programme, recipient_income:raw_data->additional_data->recipientOrgInfos->0->>latestIncome"
+        )
+        .in("funder_org_id", chunk)
+        .gt("amount_awarded", 0);
+      if (before) {
+        query = query.lt("award_date", before);
+      }
+
+      const { data, error } = await query
+        .order("grant_id")
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch awards: ${error.message}`);
+      }
+
+      for (const award of (data || []) as unknown as AwardRow[]) {
+        const existing = awardsByFunder.get(award.funder_org_id);
+        if (existing) {
+          existing.push(award);
+        } else {
+          awardsByFunder.set(award.funder_org_id, [award]);
+        }
+      }
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return awardsByFunder;
+}
+
+/**
+ * Linearly interpolated percentile of sorted values, p between 0 and 1
+ */
+function percentile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return (
+    sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+  );
+}
+
+/**
+ * Round to a figure worth asking for: the nearest £100, or £10 under £1,000
+ */
+function roundAmount(amount: number): number {
+  const step = amount >= 1000 ? 100 : 10;
+  return Math.round(amount / step) * step;
+}
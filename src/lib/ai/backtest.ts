@@ -0,0 +1,137 @@
+import { supabase } from "@/lib/supabase";
+import { getCharityProfile } from "@/lib/charity-commission";
+import type { CharityProfile } from "@/types";
+
+// Supabase returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+// Recipients are looked up by registered charity number
+const CHARITY_ORG_ID = /^GB-CHC-(\d+)$/;
+
+export interface BacktestCase {
+  recipient_org_id: string;
+  charity_number: number;
+  // Funders that made the recipient a grant before the cut-off
+  earlier_funder_ids: string[];
+  // Funders that made the recipient a grant on or after the cut-off, which
+  // matching is expected to rediscover
+  expected_funder_ids: string[];
+}
+
+/**
+ * Pick registered charities that received grants after a cut-off date, with
+ * the funders behind those grants, most funders first
+ *
+ * @param options - cutoff (ISO date), the number of recipients to return,
+ *   the fewest later funders a recipient needs, and newFundersOnly to leave
+ *   out funders that had already funded the recipient before the cut-off
+ */
+export async function selectBacktestCases(options: {
+  cutoff: string;
+  limit?: number;
+  minFunders?: number;
+  newFundersOnly?: boolean;
+}): Promise<BacktestCase[]> {
+  const { cutoff, limit = 20, minFunders = 1, newFundersOnly = false } = options;
+
+  const laterFunders = await fetchFundersByRecipient({ from: cutoff });
+  const ranked = Array.from(laterFunders)
+    .filter(([orgId]) => CHARITY_ORG_ID.test(orgId))
+    .sort((a, b) => b[1].size - a[1].size || a[0].localeCompare(b[0]));
+
+  const cases: BacktestCase[] = [];
+
+  // Earlier funders are only needed for recipients that might be used
+  for (let i = 0; i < ranked.length && cases.length < limit; i += 100) {
+    const chunk = ranked.slice(i, i + 100);
+    const earlierFunders = await fetchFundersByRecipient({
+      before: cutoff,
+      recipientOrgIds: chunk.map(([orgId]) => orgId),
+    });
+
+    for (const [orgId, later] of chunk) {
+      const earlier = earlierFunders.get(orgId) || new Set<string>();
+      const expected = Array.from(later).filter(
+        (funderOrgId) => !newFundersOnly || !earlier.has(funderOrgId)
+      );
+      if (expected.length < minFunders) continue;
+
+      cases.push({
+        recipient_org_id: orgId,
+        charity_number: Number(orgId.match(CHARITY_ORG_ID)![1]),
+        earlier_funder_ids: Array.from(earlier).sort(),
+        expected_funder_ids: expected.sort(),
+      });
+      if (cases.length >= limit) break;
+    }
+  }
+
+  return cases;
+}
+
+/**
+ * Load a backtest recipient's Charity Commission profile
+ * The register only holds current details, so classifications, areas and
+ * finances are today's. Returns null for charities registered after the
+ * cut-off or missing from the register
+ */
+export async function getBacktestProfile(
+  charityNumber: number,
+  cutoff: string
+): Promise<CharityProfile | null> {
+  try {
+    const profile = await getCharityProfile(charityNumber, 0);
+    if (profile.date_of_registration && profile.date_of_registration >= cutoff) {
+      return null;
+    }
+    return profile;
+  } catch (error) {
+    console.warn(`⚠️ Could not load charity ${charityNumber}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Group the funders of grants awarded in a date range by recipient
+ */
+async function fetchFundersByRecipient(range: {
+  from?: string;
+  before?: string;
+  recipientOrgIds?: string[];
+}): Promise<Map<string, Set<string>>> {
+  const funders = new Map<string, Set<string>>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from("grants")
+      .select("grant_id, funder_org_id, recipient_org_id")
+      .not("funder_org_id", "is", null)
+      .not("recipient_org_id", "is", null);
+    if (range.from) query = query.gte("award_date", range.from);
+    if (range.before) query = query.lt("award_date", range.before);
+    if (range.recipientOrgIds) {
+      query = query.in("recipient_org_id", range.recipientOrgIds);
+    }
+
+    const { data, error } = await query
+      .order("grant_id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch grants: ${error.message}`);
+    }
+
+    for (const grant of data || []) {
+      const existing = funders.get(grant.recipient_org_id);
+      if (existing) {
+        existing.add(grant.funder_org_id);
+      } else {
+        funders.set(grant.recipient_org_id, new Set([grant.funder_org_id]));
+      }
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return funders;
+}
@@ -0,0 +1,480 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import { z } from "zod";
+import { formatAmount, primaryCurrency } from "@/lib/currency";
+import { getExchangeRates } from "@/lib/exchange-rates";
+import { formatMonths, nextApplicationWindow } from "@/lib/seasonality";
+import { trimChatHistory } from "@/lib/chat-history";
+import { supabase } from "@/lib/supabase";
+import type {
+  CharityProfile,
+  ChatCitation,
+  ChatMessage,
+  ExchangeRates,
+  FunderMatch,
+} from "@/types";
+import { CLAUDE_MODEL, getClaudeClient } from "./claude-client";
+import {
+  formatValidationError,
+  scoreBreakdownSchema,
+  toToolInputSchema,
+} from "./match-schema";
+import { isAiBudgetExhausted } from "./matching";
+import { withModelSlot } from "./model-queue";
+import { isLanguageModelAvailable } from "./provider";
+import { recordAiUsage } from "./usage";
+
+// Matches described to the model, best first
+const CHAT_MATCH_LIMIT = 20;
+
+// Grant searches the model may run before it has to answer
+const MAX_TOOL_ROUNDS = 4;
+
+// Grants returned by a single search
+const MAX_SEARCH_RESULTS = 25;
+
+export const GRANT_SEARCH_TOOL_NAME = "search_grants";
+
+export const CHAT_UNAVAILABLE_MESSAGE =
+  "Questions about matches need an AI model, and matching is running offline. Set ANTHROPIC_API_KEY, with AI_PROVIDER unset or set to anthropic, to ask them";
+
+export const chatMessageSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string().trim().min(1).max(4000),
+});
+
+/**
+ * Validates the matches sent with a question: the fields described to the
+ * model are checked, and any others pass through
+ */
+export const chatMatchSchema = z.looseObject({
+  funder: z.looseObject({
+    org_id: z.string().min(1),
+    name: z.string(),
+    last_grant_made_date: z.string().nullish(),
+  }),
+  match_score: z.number(),
+  score_breakdown: scoreBreakdownSchema,
+  reasoning: z.string(),
+  evidence: z
+    .record(
+      z.string(),
+      z.array(z.looseObject({ grant_id: z.string(), title: z.string() }))
+    )
+    .optional(),
+  feedback: z.looseObject({ verdict: z.string() }).optional(),
+  ask_range: z
+    .looseObject({
+      low: z.number(),
+      high: z.number(),
+      comparable_grants: z.number(),
+    })
+    .nullish(),
+  seasonality: z
+    .looseObject({
+      clusters: z.array(
+        z.looseObject({
+          months: z.array(z.number().int().min(0).max(11)).min(1),
+          share: z.number(),
+        })
+      ),
+    })
+    .nullish(),
+});
+
+const grantSearchSchema = z.object({
+  funder_org_ids: z
+    .array(z.string().min(1))
+    .max(CHAT_MATCH_LIMIT)
+    .optional()
+    .describe(
+      "Org IDs of the funders to search. Defaults to every matched funder"
+    ),
+  keywords: z
+    .string()
+    .optional()
+    .describe(
+      "Words to look for in grant titles and descriptions, e.g. 'core costs' or 'capital'"
+    ),
+  min_amount: z
+    .number()
+    .min(0)
+    .optional()
+    .describe(
+      "Minimum grant in GBP. Grants in other currencies are compared by their GBP equivalent"
+    ),
+  max_amount: z
+    .number()
+    .min(0)
+    .optional()
+    .describe(
+      "Maximum grant in GBP. Grants in other currencies are compared by their GBP equivalent"
+    ),
+  awarded_after: z
+    .string()
+    .optional()
+    .describe("Only grants awarded on or after this date (YYYY-MM-DD)"),
+  limit: z.number().int().min(1).max(MAX_SEARCH_RESULTS).optional(),
+});
+
+type GrantSearch = z.infer<typeof grantSearchSchema>;
+
+interface GrantRow {
+  grant_id: string;
+  title: string | null;
+  description: string | null;
+  amount_awarded: number | null;
+  currency: string | null;
+  award_date: string | null;
+  funder_org_id: string;
+  recipient_org_id: string | null;
+}
+
+const CHAT_SYSTEM_PROMPT = `You are an expert grant advisor for UK charities. The charity below has already been matched with funders using historical grant data from 360Giving, and is now asking follow-up questions about those matches.
+
+Answer from the match results and from grant records. Use the ${GRANT_SEARCH_TOOL_NAME} tool whenever a question depends on what funders have actually funded, e.g. core costs, capital projects, grant sizes or recent activity; don't guess from funder names.
+
+Cite every grant you rely on by its Grant ID in square brackets, exactly as given, e.g. [360G-example-001]. Only cite Grant IDs that appear in the match results or in search results. If the records don't answer the question, say so plainly.
+
+Keep answers short and practical, and name funders rather than describing them.`;
+
+/**
+ * Answer a follow-up question about a charity's matches
+ * The conversation is kept by the caller and sent in full each time; the
+ * last message must be the user's question
+ * @throws If no language model is configured, e.g. when running offline
+ * @returns The assistant's answer, with the grants it cites
+ */
+export async function answerMatchQuestion(
+  charityProfile: CharityProfile,
+  matches: FunderMatch[],
+  messages: ChatMessage[]
+): Promise<{ message: ChatMessage; budgetExhausted: boolean }> {
+  if (!isLanguageModelAvailable()) {
+    throw new Error(CHAT_UNAVAILABLE_MESSAGE);
+  }
+
+  if (await isAiBudgetExhausted()) {
+    return {
+      message: {
+        role: "assistant",
+        content:
+          "The AI budget has been reached, so questions can't be answered until it resets.",
+      },
+      budgetExhausted: true,
+    };
+  }
+
+  const claude = getClaudeClient();
+  const topMatches = matches.slice(0, CHAT_MATCH_LIMIT);
+  const funderOrgIds = topMatches.map((m) => m.funder.org_id);
+  const system = `${CHAT_SYSTEM_PROMPT}\n\n${renderChatContext(charityProfile, topMatches)}`;
+
+  const conversation: Anthropic.MessageParam[] = trimChatHistory(
+    messages
+  ).map(({ role, content }) => ({ role, content }));
+
+  let answer = "";
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    const startedAt = Date.now();
+    const usageEntry = {
+      operation: "chat" as const,
+      provider: "anthropic",
+      model: CLAUDE_MODEL,
+      charityNumber: charityProfile.reg_charity_number,
+    };
+
+    let response: Anthropic.Message;
+    try {
+      response = await withModelSlot(() =>
+        claude.messages.create({
+          model: CLAUDE_MODEL,
+          max_tokens: 1500,
+          temperature: 0.3,
+          system,
+          tools: [getGrantSearchTool()],
+          // Out of searches, so the model has to answer with what it has
+          tool_choice:
+            round === MAX_TOOL_ROUNDS ? { type: "none" } : { type: "auto" },
+          messages: conversation,
+        })
+      );
+    } catch (error) {
+      await recordAiUsage({
+        ...usageEntry,
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    await recordAiUsage({
+      ...usageEntry,
+      usage: response.usage,
+      latencyMs: Date.now() - startedAt,
+    });
+
+    const toolUses = response.content.filter(
+      (block): block is Anthropic.ToolUseBlock => block.type === "tool_use"
+    );
+
+    if (response.stop_reason !== "tool_use" || toolUses.length === 0) {
+      answer = response.content
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .join("")
+        .trim();
+      break;
+    }
+
+    conversation.push({ role: "assistant", content: response.content });
+    conversation.push({
+      role: "user",
+      content: await Promise.all(
+        toolUses.map((toolUse) => runGrantSearch(toolUse, funderOrgIds))
+      ),
+    });
+  }
+
+  return {
+    message: {
+      role: "assistant",
+      content: answer || "Sorry, I couldn't find an answer to that.",
+      citations: await resolveCitations(answer),
+    },
+    budgetExhausted: false,
+  };
+}
+
+/**
+ * Tool definition for searching grant records during a conversation
+ */
+function getGrantSearchTool(): Anthropic.Tool {
+  return {
+    name: GRANT_SEARCH_TOOL_NAME,
+    description:
+      "Search grants made by the matched funders. Returns Grant ID, title, description, amount, date, funder and recipient, most recent first.",
+    input_schema: toToolInputSchema(grantSearchSchema),
+  };
+}
+
+/**
+ * Run one search requested by the model, reporting problems back to it
+ * rather than failing the conversation
+ */
+async function runGrantSearch(
+  toolUse: Anthropic.ToolUseBlock,
+  matchedFunderOrgIds: string[]
+): Promise<Anthropic.ToolResultBlockParam> {
+  const parsed = grantSearchSchema.safeParse(toolUse.input);
+  if (!parsed.success) {
+    return {
+      type: "tool_result",
+      tool_use_id: toolUse.id,
+      content: `Invalid search: ${formatValidationError(parsed.error)}`,
+      is_error: true,
+    };
+  }
+
+  try {
+    const grants = await searchGrants(parsed.data, matchedFunderOrgIds);
+    console.log(
+      `💬 Grant search ${JSON.stringify(parsed.data)} returned ${grants.length} grants`
+    );
+
+    return {
+      type: "tool_result",
+      tool_use_id: toolUse.id,
+      content: grants.length
+        ? grants.map(renderGrant).join("\n\n")
+        : "No grants matched this search.",
+    };
+  } catch (error) {
+    return {
+      type: "tool_result",
+      tool_use_id: toolUse.id,
+      content: error instanceof Error ? error.message : "Search failed",
+      is_error: true,
+    };
+  }
+}
+
+/**
+ * Find grants made by matched funders. Searches are limited to the matched
+ * funders so the conversation stays about them
+ */
+async function searchGrants(
+  search: GrantSearch,
+  matchedFunderOrgIds: string[]
+): Promise<GrantRow[]> {
+  const funderOrgIds = search.funder_org_ids?.length
+    ? search.funder_org_ids.filter((id) => matchedFunderOrgIds.includes(id))
+    : matchedFunderOrgIds;
+  if (funderOrgIds.length === 0) return [];
+
+  let query = supabase
+    .from("grants")
+    .select(
+      "grant_id, title, description, amount_awarded, currency, award_date, funder_org_id, recipient_org_id"
+    )
+    .in("funder_org_id", funderOrgIds);
+
+  // Characters that would break the PostgREST filter syntax
+  const keywords = search.keywords?.replace(/[,()*%\\]/g, " ").trim();
+  if (keywords) {
+    query = query.or(
+      `title.ilike.*${keywords}*,description.ilike.*${keywords}*`
+    );
+  }
+  if (search.min_amount !== undefined || search.max_amount !== undefined) {
+    query = query.or(
+      amountInGbpFilter(
+        search.min_amount,
+        search.max_amount,
+        await getExchangeRates()
+      )
+    );
+  }
+  if (search.awarded_after && !Number.isNaN(Date.parse(search.awarded_after))) {
+    query = query.gte("award_date", search.awarded_after);
+  }
+
+  const { data, error } = await query
+    .order("award_date", { ascending: false, nullsFirst: false })
+    .limit(search.limit ?? 10);
+
+  if (error) {
+    throw new Error(`Failed to search grants: ${error.message}`);
+  }
+
+  return (data || []) as GrantRow[];
+}
+
+/**
+ * PostgREST filter for grants whose GBP equivalent is within a range: the
+ * range converted into each currency with a rate. Grants in currencies
+ * without a rate are left out
+ */
+function amountInGbpFilter(
+  min: number | undefined,
+  max: number | undefined,
+  rates: ExchangeRates
+): string {
+  return Object.entries(rates)
+    .map(([currency, rate]) => {
+      const bounds = [
+        min !== undefined && `amount_awarded.gte.${min / rate}`,
+        max !== undefined && `amount_awarded.lte.${max / rate}`,
+      ].filter(Boolean);
+      // Grants without a currency are in GBP
+      const inCurrency =
+        currency === "GBP"
+          ? "or(currency.eq.GBP,currency.is.null)"
+          : `currency.eq.${currency}`;
+      return `and(${inCurrency},${bounds.join(",")})`;
+    })
+    .join(",");
+}
+
+function renderGrant(grant: GrantRow): string {
+  return `Grant ID: ${grant.grant_id}
+Funder: ${grant.funder_org_id}
+Title: ${grant.title || "Untitled"}
+Amount: ${grant.amount_awarded === null ? "Unknown" : formatAmount(grant.amount_awarded, grant.currency || "GBP")}
+Awarded: ${grant.award_date?.slice(0, 10) || "Unknown"}
+Recipient: ${grant.recipient_org_id || "Unknown"}${grant.description ? `\nDescription: ${grant.description.substring(0, 300)}` : ""}`;
+}
+
+/**
+ * Describe the charity and its matches for the system prompt
+ */
+function renderChatContext(
+  charity: CharityProfile,
+  matches: FunderMatch[]
+): string {
+  const describe = (type: string) =>
+    charity.who_what_where
+      ?.filter((w) => w.classification_type === type)
+      .map((w) => w.classification_desc)
+      .join(", ") || "Not specified";
+
+  const regions =
+    charity.CharityAoORegion?.map((r) => r.region).join(", ") ||
+    "Not specified";
+
+  const funders = matches
+    .map((match, index) => {
+      const { funder, score_breakdown: s } = match;
+      const stats = funder.funder_stats?.aggregate;
+      const currency = primaryCurrency(stats?.currencies);
+      const cited = Object.values(match.evidence || {})
+        .flat()
+        .filter(
+          (citation, i, all) =>
+            all.findIndex((c) => c.grant_id === citation.grant_id) === i
+        )
+        .map((c) => `[${c.grant_id}] ${c.title}`);
+      const applyWindow = match.seasonality
+        ? nextApplicationWindow(match.seasonality)
+        : null;
+
+      return `## ${index + 1}. ${funder.name} (${funder.org_id})
+Match score: ${match.match_score}% (mission ${s.mission_alignment}, geography ${s.geographic_fit}, size ${s.size_compatibility}, activity ${s.activity_level}, precedent ${s.historical_precedent})
+Grants made: ${stats?.grants ?? "Unknown"}, average ${formatAmount(stats?.currencies?.[currency]?.avg || 0, currency)}${Object.keys(stats?.currencies || {}).length > 1 ? ` (most grants in ${currency})` : ""}, last grant ${funder.last_grant_made_date || "unknown"}${match.ask_range ? `\nSuggested ask: ${formatAmount(match.ask_range.low)} to ${formatAmount(match.ask_range.high)} (from ${match.ask_range.comparable_grants} comparable grants)` : ""}${applyWindow ? `\nBest time to apply: ${formatMonths(applyWindow.apply_months)}, for decisions in ${formatMonths(applyWindow.decision_months)} (${Math.round(applyWindow.share * 100)}% of recent awards)` : ""}
+Reasoning: ${match.reasoning}${cited.length ? `\nCited grants: ${cited.join("; ")}` : ""}${match.feedback ? `\nThe charity marked this funder as ${match.feedback.verdict.replace(/_/g, " ")}` : ""}`;
+    })
+    .join("\n\n");
+
+  return `# Charity
+
+**Name:** ${charity.charity_name}
+**Annual Income:** £${charity.latest_income?.toLocaleString() || "Not available"}
+**Activities:** ${describe("What")}
+**Beneficiaries:** ${describe("Who")}
+**Regions:** ${regions}${charity.activities ? `\n**About:** ${charity.activities}` : ""}
+
+# Current Matches
+
+${funders || "No matches."}`;
+}
+
+/**
+ * Look up the grants cited in an answer, keeping only those that exist
+ */
+async function resolveCitations(answer: string): Promise<ChatCitation[]> {
+  const grantIds = [
+    ...new Set(
+      Array.from(answer.matchAll(/\[([^[\]\s]+)\]/g), (match) => match[1])
+    ),
+  ].slice(0, 100);
+  if (grantIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("grants")
+    .select("grant_id, funder_org_id, title, amount_awarded, award_date")
+    .in("grant_id", grantIds);
+
+  if (error) {
+    console.warn("⚠️ Could not look up cited grants:", error.message);
+    return [];
+  }
+
+  const byId = new Map(
+    (data || []).map((grant) => [grant.grant_id as string, grant])
+  );
+
+  // Keep the order in which the answer cites them
+  return grantIds.flatMap((grantId) => {
+    const grant = byId.get(grantId);
+    return grant
+      ? [
+          {
+            grant_id: grant.grant_id,
+            funder_org_id: grant.funder_org_id,
+            title: grant.title || "Untitled grant",
+            amount_awarded: grant.amount_awarded,
+            award_date: grant.award_date,
+          },
+        ]
+      : [];
+  });
+}
@@ -1,4 +1,11 @@
 import Anthropic from "@anthropic-ai/sdk";
+import { recordAiUsage } from "./usage";
+
+/**
+ * Claude model used for all AI calls, overridable via ANTHROPIC_MODEL
+ */
+export const CLAUDE_MODEL =
+  process.env.ANTHROPIC_MODEL || "claude-sonnet-4-5-20250929";
 
 /**
  * Claude AI client singleton for consistent configuration across the app
@@ -48,12 +55,21 @@ export function getClaudeClient(): Anthropic {
 export async function testClaudeConnection(): Promise<boolean> {
   try {
     const client = getClaudeClient();
+    const startedAt = Date.now();
     const response = await client.messages.create({
-      model: "claude-sonnet-4-5-20250929",
+      model: CLAUDE_MODEL,
       max_tokens: 100,
       messages: [{ role: "user", content: "Hello" }],
     });
 
+    await recordAiUsage({
+      operation: "test_connection",
+      provider: "anthropic",
+      model: CLAUDE_MODEL,
+      usage: response.usage,
+      latencyMs: Date.now() - startedAt,
+    });
+
     return response.content.length > 0;
   } catch (error) {
     console.error("Claude connection test failed:", error);
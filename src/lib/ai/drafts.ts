@@ -0,0 +1,407 @@
+import { z } from "zod";
+import { aggregateInGbp, formatAmount, toGbp } from "@/lib/currency";
+import { supabase } from "@/lib/supabase";
+import type {
+  ApplicationDraft,
+  CharityProfile,
+  ExchangeRates,
+  FunderMatch,
+  Grant,
+  GrantProgramme,
+  Organisation,
+} from "@/types";
+import { CLAUDE_MODEL, getClaudeClient } from "./claude-client";
+import { formatValidationError, toToolInputSchema } from "./match-schema";
+import {
+  findCachedFunderMatch,
+  getFunderDetails,
+  isAiBudgetExhausted,
+} from "./matching";
+import { withModelSlot } from "./model-queue";
+import { isLanguageModelAvailable } from "./provider";
+import { recordAiUsage } from "./usage";
+
+// Recent grants and programmes described to the model
+const DRAFT_GRANT_LIMIT = 15;
+const DRAFT_PROGRAMME_LIMIT = 5;
+
+export const DRAFT_TOOL_NAME = "record_application_draft";
+
+export const DRAFT_UNAVAILABLE_MESSAGE =
+  "Drafting applications needs an AI model, and matching is running offline. Set ANTHROPIC_API_KEY, with AI_PROVIDER unset or set to anthropic, to generate drafts";
+
+// Drafts are keyed by UUID, so any other ID can't name one
+const draftIdSchema = z.uuid();
+
+const sectionText = z.string().trim().min(1).max(8000);
+
+const draftSectionsSchema = z.object({
+  need: sectionText.describe(
+    "The problem the charity addresses and the evidence for it"
+  ),
+  activities: sectionText.describe(
+    "What the charity will do with the grant, and for whom"
+  ),
+  outcomes: sectionText.describe(
+    "The difference the work will make and how it will be measured"
+  ),
+  budget_ask: sectionText.describe(
+    "The amount requested, what it pays for, and why it suits this funder's usual grant size"
+  ),
+  funder_fit: sectionText.describe(
+    "How the work fits the funder's priorities, programmes and past grants"
+  ),
+});
+
+const draftResponseSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  requested_amount: z
+    .number()
+    .min(0)
+    .nullable()
+    .describe("Amount to ask for in GBP, or null if no amount is proposed"),
+  sections: draftSectionsSchema,
+});
+
+/**
+ * Validates edits to a saved draft
+ */
+export const draftUpdateSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  requested_amount: z.number().min(0).nullable(),
+  sections: z.object({
+    need: z.string().max(8000),
+    activities: z.string().max(8000),
+    outcomes: z.string().max(8000),
+    budget_ask: z.string().max(8000),
+    funder_fit: z.string().max(8000),
+  }),
+});
+
+export type DraftUpdate = z.infer<typeof draftUpdateSchema>;
+
+const DRAFT_SYSTEM_PROMPT = `You are an experienced bid writer for UK charities. You write first drafts of a case for support, tailored to one funder, for the charity's fundraisers to edit.
+
+Write in the charity's voice ("we"), in plain British English. Be specific: draw on the charity's own profile and on what this funder has actually funded. Where the profile doesn't give a fact a funder would expect, e.g. numbers of beneficiaries, write a clear placeholder in square brackets such as [number of young people supported last year] rather than inventing it.
+
+Set the ask within the range this funder usually gives and in proportion to the charity's income.`;
+
+/**
+ * Generate a first draft of a case for support to a funder and save it
+ * @throws If no language model is configured, e.g. when running offline
+ * @returns The saved draft, or null when the AI budget has been reached
+ */
+export async function generateApplicationDraft(
+  charityProfile: CharityProfile,
+  funderOrgId: string
+): Promise<ApplicationDraft | null> {
+  if (!isLanguageModelAvailable()) {
+    throw new Error(DRAFT_UNAVAILABLE_MESSAGE);
+  }
+
+  if (await isAiBudgetExhausted()) {
+    return null;
+  }
+
+  const { funder, grants, exchange_rates } =
+    await getFunderDetails(funderOrgId);
+  const match = await findCachedFunderMatch(
+    charityProfile.reg_charity_number,
+    funderOrgId
+  ).catch(() => null);
+
+  const claude = getClaudeClient();
+  console.log(
+    `✍️ Drafting an application from ${charityProfile.charity_name} to ${funder.name}`
+  );
+
+  const startedAt = Date.now();
+  const usageEntry = {
+    operation: "draft" as const,
+    provider: "anthropic",
+    model: CLAUDE_MODEL,
+    charityNumber: charityProfile.reg_charity_number,
+  };
+
+  let response;
+  try {
+    response = await withModelSlot(() =>
+      claude.messages.create({
+        model: CLAUDE_MODEL,
+        max_tokens: 4000,
+        temperature: 0.5,
+        system: DRAFT_SYSTEM_PROMPT,
+        tools: [
+          {
+            name: DRAFT_TOOL_NAME,
+            description: "Record the application draft, one field per section.",
+            input_schema: toToolInputSchema(draftResponseSchema),
+          },
+        ],
+        tool_choice: { type: "tool", name: DRAFT_TOOL_NAME },
+        messages: [
+          {
+            role: "user",
+            content: buildDraftPrompt(
+              charityProfile,
+              funder,
+              grants,
+              match,
+              exchange_rates
+            ),
+          },
+        ],
+      })
+    );
+  } catch (error) {
+    await recordAiUsage({
+      ...usageEntry,
+      latencyMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+
+  await recordAiUsage({
+    ...usageEntry,
+    usage: response.usage,
+    latencyMs: Date.now() - startedAt,
+  });
+
+  const toolUse = response.content.find(
+    (block) => block.type === "tool_use" && block.name === DRAFT_TOOL_NAME
+  );
+  const parsed = draftResponseSchema.safeParse(
+    toolUse?.type === "tool_use" ? toolUse.input : undefined
+  );
+  if (!parsed.success) {
+    throw new Error(
+      `The generated draft could not be used: ${formatValidationError(parsed.error)}`
+    );
+  }
+
+  const { data, error } = await supabase
+    .from("application_drafts")
+    .insert({
+      charity_number: charityProfile.reg_charity_number,
+      charity_name: charityProfile.charity_name,
+      funder_org_id: funder.org_id,
+      funder_name: funder.name,
+      title: parsed.data.title,
+      sections: parsed.data.sections,
+      requested_amount: parsed.data.requested_amount,
+      model: CLAUDE_MODEL,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save draft: ${error.message}`);
+  }
+
+  console.log(`💾 Saved application draft ${data.id}`);
+  return data as ApplicationDraft;
+}
+
+/**
+ * List a charity's drafts, newest edit first, optionally for one funder
+ */
+export async function listApplicationDrafts(
+  charityNumber: number,
+  funderOrgId?: string
+): Promise<ApplicationDraft[]> {
+  let query = supabase
+    .from("application_drafts")
+    .select("*")
+    .eq("charity_number", charityNumber);
+
+  if (funderOrgId) {
+    query = query.eq("funder_org_id", funderOrgId);
+  }
+
+  const { data, error } = await query.order("updated_at", {
+    ascending: false,
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch drafts: ${error.message}`);
+  }
+
+  return (data || []) as ApplicationDraft[];
+}
+
+/**
+ * Get a draft by ID, or null if there is none
+ */
+export async function getApplicationDraft(
+  id: string
+): Promise<ApplicationDraft | null> {
+  if (!draftIdSchema.safeParse(id).success) return null;
+
+  const { data, error } = await supabase
+    .from("application_drafts")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch draft: ${error.message}`);
+  }
+
+  return (data as ApplicationDraft) || null;
+}
+
+/**
+ * Save edits to a draft
+ * Returns null when no draft has the ID
+ */
+export async function updateApplicationDraft(
+  id: string,
+  update: DraftUpdate
+): Promise<ApplicationDraft | null> {
+  if (!draftIdSchema.safeParse(id).success) return null;
+
+  const { data, error } = await supabase
+    .from("application_drafts")
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update draft: ${error.message}`);
+  }
+
+  return (data as ApplicationDraft) || null;
+}
+
+/**
+ * Delete a draft
+ * @returns Whether a draft was deleted
+ */
+export async function deleteApplicationDraft(id: string): Promise<boolean> {
+  if (!draftIdSchema.safeParse(id).success) return false;
+
+  const { data, error } = await supabase
+    .from("application_drafts")
+    .delete()
+    .eq("id", id)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to delete draft: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Describe the charity, the funder's giving and the match for the model
+ */
+function buildDraftPrompt(
+  charity: CharityProfile,
+  funder: Organisation,
+  grants: Grant[],
+  match: FunderMatch | null,
+  rates: ExchangeRates
+): string {
+  const describe = (type: string) =>
+    charity.who_what_where
+      ?.filter((w) => w.classification_type === type)
+      .map((w) => w.classification_desc)
+      .join(", ") || "Not specified";
+
+  const areas =
+    [
+      ...(charity.CharityAoORegion || []).map((r) => r.region),
+      ...(charity.CharityAoOLocalAuthority || []).map(
+        (la) => la.local_authority
+      ),
+    ].join(", ") || "Not specified";
+
+  const gbp = aggregateInGbp(funder.funder_stats?.aggregate.currencies, rates);
+  const amounts = grants
+    .filter((g) => g.amount_awarded > 0)
+    .map((g) => toGbp(g.amount_awarded, g.currency, rates))
+    .filter((amount): amount is number => amount !== null);
+
+  const recentGrants = grants
+    .slice(0, DRAFT_GRANT_LIMIT)
+    .map(
+      (grant) =>
+        `- ${grant.title || "Untitled"}: ${formatAmount(grant.amount_awarded || 0, grant.currency || "GBP")} to ${grant.recipient_org_id || "Unknown"} (${grant.award_date?.slice(0, 10) || "undated"})${grant.description ? `\n  ${grant.description.substring(0, 200)}` : ""}`
+    )
+    .join("\n");
+
+  const programmes = summariseProgrammes(grants)
+    .map(
+      ({ programme, count }) =>
+        `- ${programme.title} (${count} recent grants)${programme.description ? `: ${programme.description.substring(0, 300)}` : ""}`
+    )
+    .join("\n");
+
+  return `# Charity
+
+**Name:** ${charity.charity_name}
+**Type:** ${charity.charity_type || "Not specified"}
+**Annual Income:** £${charity.latest_income?.toLocaleString() || "Not available"}
+**Annual Expenditure:** £${charity.latest_expenditure?.toLocaleString() || "Not available"}
+**Activities:** ${describe("What")}
+**Beneficiaries:** ${describe("Who")}
+**Areas of Operation:** ${areas}${charity.activities ? `\n**About:** ${charity.activities}` : ""}
+
+# Funder
+
+**Name:** ${funder.name}
+**Total Grants Made:** ${funder.funder_stats?.aggregate.grants ?? "Unknown"}
+**Grant Size (GBP equivalent):** average ${formatAmount(gbp?.avg || 0)}, smallest ${formatAmount(gbp?.min || 0)}, largest ${formatAmount(gbp?.max || 0)}${amounts.length ? `; recent median ${formatAmount(median(amounts))}` : ""}${gbp?.unconverted.length ? ` (excluding grants in ${gbp.unconverted.join(", ")})` : ""}
+**Last Grant Date:** ${funder.last_grant_made_date || "Unknown"}
+
+## Grant Programmes
+${programmes || "No named programmes in recent grants."}
+
+## Recent Grants
+${recentGrants || "No grants on record."}
+
+# Why This Funder Was Matched
+${
+  match
+    ? `Match score ${match.match_score}%. ${match.reasoning}${match.similar_charities_funded.length ? `\nSimilar organisations funded: ${match.similar_charities_funded.map((s) => `${s.charity_name} (${formatAmount(s.grant_amount, s.currency)}, ${s.grant_purpose})`).join("; ")}` : ""}`
+    : "No match analysis is available for this funder."
+}
+
+# Task
+
+Write a first draft of a case for support from this charity to this funder, and record it by calling the \`${DRAFT_TOOL_NAME}\` tool. Give it a short title naming the project or purpose. Each section should be one to three paragraphs.`;
+}
+
+/**
+ * The funder's programmes, most used in recent grants first
+ */
+function summariseProgrammes(
+  grants: Grant[]
+): { programme: GrantProgramme; count: number }[] {
+  const byTitle = new Map<string, { programme: GrantProgramme; count: number }>();
+
+  for (const grant of grants) {
+    for (const programme of grant.grant_programme || []) {
+      if (!programme.title) continue;
+      const entry = byTitle.get(programme.title);
+      if (entry) {
+        entry.count++;
+      } else {
+        byTitle.set(programme.title, { programme, count: 1 });
+      }
+    }
+  }
+
+  return [...byTitle.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, DRAFT_PROGRAMME_LIMIT);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -0,0 +1,125 @@
+import { supabase } from "@/lib/supabase";
+
+// Cut-offs reported for recall and precision
+export const EVAL_CUTOFFS = [5, 10, 20];
+
+// "cases" scores the fixed profiles in scripts/eval, "backtest" scores real
+// recipients against the funders that went on to fund them
+export type EvaluationMode = "cases" | "backtest";
+
+export interface RankingMetrics {
+  expected: number;
+  found: number;
+  recall_at: Record<number, number>;
+  precision_at: Record<number, number>;
+  // Reciprocal rank of the first expected funder, 0 if none was ranked
+  mrr: number;
+  ndcg_at_10: number;
+  // Mean 1-based rank of the expected funders that were ranked at all
+  mean_rank: number | null;
+}
+
+/**
+ * Score a ranked list of funder org IDs against the funders expected for it
+ */
+export function computeRankingMetrics(
+  ranked: string[],
+  expected: string[],
+  cutoffs: number[] = EVAL_CUTOFFS
+): RankingMetrics {
+  const expectedSet = new Set(expected);
+  const ranks = ranked
+    .map((orgId, i) => (expectedSet.has(orgId) ? i + 1 : null))
+    .filter((rank): rank is number => rank !== null);
+
+  const hitsWithin = (k: number) => ranks.filter((rank) => rank <= k).length;
+
+  const dcg = ranks
+    .filter((rank) => rank <= 10)
+    .reduce((sum, rank) => sum + 1 / Math.log2(rank + 1), 0);
+  const idealDcg = Array.from(
+    { length: Math.min(10, expectedSet.size) },
+    (_, i) => 1 / Math.log2(i + 2)
+  ).reduce((sum, v) => sum + v, 0);
+
+  return {
+    expected: expectedSet.size,
+    found: ranks.length,
+    recall_at: Object.fromEntries(
+      cutoffs.map((k) => [
+        k,
+        expectedSet.size ? hitsWithin(k) / expectedSet.size : 0,
+      ])
+    ),
+    precision_at: Object.fromEntries(
+      cutoffs.map((k) => [k, hitsWithin(k) / k])
+    ),
+    mrr: ranks.length ? 1 / ranks[0] : 0,
+    ndcg_at_10: idealDcg ? dcg / idealDcg : 0,
+    mean_rank: ranks.length
+      ? ranks.reduce((sum, rank) => sum + rank, 0) / ranks.length
+      : null,
+  };
+}
+
+/**
+ * Average metrics across cases, e.g. for one prompt version
+ */
+export function averageMetrics(results: RankingMetrics[]): RankingMetrics {
+  const mean = (values: number[]) =>
+    values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  const cutoffs = results.length
+    ? Object.keys(results[0].recall_at).map(Number)
+    : EVAL_CUTOFFS;
+  const meanRanks = results
+    .map((r) => r.mean_rank)
+    .filter((rank): rank is number => rank !== null);
+
+  return {
+    expected: results.reduce((sum, r) => sum + r.expected, 0),
+    found: results.reduce((sum, r) => sum + r.found, 0),
+    recall_at: Object.fromEntries(
+      cutoffs.map((k) => [k, mean(results.map((r) => r.recall_at[k]))])
+    ),
+    precision_at: Object.fromEntries(
+      cutoffs.map((k) => [k, mean(results.map((r) => r.precision_at[k]))])
+    ),
+    mrr: mean(results.map((r) => r.mrr)),
+    ndcg_at_10: mean(results.map((r) => r.ndcg_at_10)),
+    mean_rank: meanRanks.length ? mean(meanRanks) : null,
+  };
+}
+
+/**
+ * Store one evaluated case with the prompt version and model that produced it
+ */
+export async function recordEvaluationResult(result: {
+  evalRunId: string;
+  mode?: EvaluationMode;
+  // Grant data cut-off, for backtests
+  cutoffDate?: string | null;
+  caseName: string;
+  promptVersion: string;
+  provider: string;
+  model: string;
+  metrics: RankingMetrics;
+  rankedFunderIds: string[];
+  expectedFunderIds: string[];
+}): Promise<void> {
+  const { error } = await supabase.from("match_evaluations").insert({
+    eval_run_id: result.evalRunId,
+    mode: result.mode || "cases",
+    cutoff_date: result.cutoffDate ?? null,
+    case_name: result.caseName,
+    prompt_version: result.promptVersion,
+    provider: result.provider,
+    model: result.model,
+    metrics: result.metrics,
+    ranked_funder_ids: result.rankedFunderIds,
+    expected_funder_ids: result.expectedFunderIds,
+  });
+
+  if (error) {
+    throw new Error(`Failed to record evaluation result: ${error.message}`);
+  }
+}
@@ -0,0 +1,234 @@
+import { scoreFunderForCharity } from "./matching";
+import { getMatchFeedback } from "./feedback";
+import { PRESCORE_CANDIDATE_LIMIT, findFailedFilter } from "./prescoring";
+import {
+  describeMatchFilter,
+  hasMatchFilters,
+  normaliseMatchFilters,
+} from "@/lib/match-filters";
+import {
+  EXCLUDED_FEEDBACK_VERDICTS,
+  FEEDBACK_RANK_BOOST,
+  SCORE_FACTORS,
+  computeMatchScore,
+  resolveWeights,
+} from "@/lib/scoring";
+import type {
+  CharityProfile,
+  FactorShortfall,
+  FunderExplanation,
+  FunderMatch,
+  MatchFeedback,
+  MatchFilters,
+  ScoreWeights,
+} from "@/types";
+
+// Matches shown on the funders page, which explanations are measured against
+export const TOP_MATCH_COUNT = 20;
+
+// Shortfalls smaller than this many score points aren't worth mentioning
+const MIN_SHORTFALL_IMPACT = 1;
+
+/**
+ * Explain where a funder ranks for a charity and which factors held it back
+ * Funders already scored for the charity are explained from those scores;
+ * any other funder is scored on its own first, unless the filters leave it
+ * out. Pass every scored funder, ranked with the same weights and filters,
+ * e.g. from findCachedMatches
+ * @returns null if the org ID isn't a funder
+ */
+export async function explainFunderRanking(
+  charityProfile: CharityProfile,
+  funderOrgId: string,
+  ranked: FunderMatch[],
+  options: { weights?: Partial<ScoreWeights>; filters?: MatchFilters } = {}
+): Promise<FunderExplanation | null> {
+  const { weights, filters } = options;
+
+  const top = ranked.slice(0, TOP_MATCH_COUNT);
+  const feedback = await loadFunderFeedback(
+    charityProfile.reg_charity_number,
+    funderOrgId
+  );
+
+  let match = ranked.find((m) => m.funder.org_id === funderOrgId) || null;
+  let funderName = match?.funder.name;
+  let prescore: { rank: number; total: number } | null = null;
+  let excludedBy: FunderExplanation["excluded_by"];
+  const hidden =
+    !!feedback && EXCLUDED_FEEDBACK_VERDICTS.includes(feedback.verdict);
+
+  // Matching never scores a funder the filters leave out, so neither does this
+  if (!match && !hidden && filters && hasMatchFilters(filters)) {
+    const normalised = normaliseMatchFilters(filters);
+    const checked = await findFailedFilter(funderOrgId, normalised);
+    if (!checked) {
+      return null;
+    }
+
+    funderName = checked.funder.name;
+    if (checked.filter) {
+      excludedBy = {
+        filter: checked.filter,
+        description: describeMatchFilter(normalised, checked.filter) || "",
+      };
+    }
+  }
+
+  if (!match && !hidden && !excludedBy) {
+    const scored = await scoreFunderForCharity(charityProfile, funderOrgId);
+    if (!scored) {
+      return null;
+    }
+
+    prescore = { rank: scored.prescoreRank, total: scored.prescoreTotal };
+    match = scored.match && {
+      ...scored.match,
+      match_score: computeMatchScore(scored.match.score_breakdown, weights),
+    };
+  }
+
+  const index = ranked.findIndex((m) => m.funder.org_id === funderOrgId);
+  const score = match?.match_score;
+  const rank =
+    index !== -1
+      ? index + 1
+      : score !== undefined
+        ? ranked.filter((m) => rankScore(m) >= score).length + 1
+        : null;
+  const total = index !== -1 ? ranked.length : ranked.length + 1;
+  const cutoffScore = top.length ? top[top.length - 1].match_score : null;
+  const heldBackBy = match ? findShortfalls(match, top, weights) : [];
+
+  const explanation: FunderExplanation = {
+    funder: {
+      org_id: funderOrgId,
+      name: match?.funder.name || funderName || funderOrgId,
+    },
+    match,
+    rank,
+    total,
+    top_count: top.length,
+    in_top_matches: rank !== null && rank <= top.length,
+    cutoff_score: cutoffScore,
+    shortlisted: index !== -1,
+    prescore_rank: prescore?.rank ?? null,
+    prescore_total: prescore?.total ?? null,
+    held_back_by: heldBackBy,
+    feedback: feedback || undefined,
+    excluded_by: excludedBy,
+    summary: "",
+  };
+  explanation.summary = summarise(explanation);
+
+  return explanation;
+}
+
+/**
+ * Compare each factor with its average among the top matches and weigh the
+ * gap by the factor's share of the match score, biggest loss first
+ */
+function findShortfalls(
+  match: FunderMatch,
+  top: FunderMatch[],
+  weights?: Partial<ScoreWeights>
+): FactorShortfall[] {
+  if (top.length === 0) return [];
+
+  const resolved = resolveWeights(weights);
+  const totalWeight = SCORE_FACTORS.reduce((sum, f) => sum + resolved[f], 0);
+
+  return SCORE_FACTORS.map((factor) => {
+    const benchmark = Math.round(
+      top.reduce((sum, m) => sum + m.score_breakdown[factor], 0) / top.length
+    );
+    const score = match.score_breakdown[factor];
+    return {
+      factor,
+      score,
+      benchmark,
+      impact:
+        Math.round(((benchmark - score) * resolved[factor] * 10) / totalWeight) /
+        10,
+    };
+  })
+    .filter((shortfall) => shortfall.impact >= MIN_SHORTFALL_IMPACT)
+    .sort((a, b) => b.impact - a.impact);
+}
+
+/**
+ * One or two plain sentences for the UI
+ */
+function summarise(explanation: FunderExplanation): string {
+  const { funder, match, rank, total, top_count, cutoff_score } = explanation;
+
+  if (!match && explanation.excluded_by) {
+    return explanation.excluded_by.filter === "exclude_org_ids"
+      ? `You excluded ${funder.name} from your matches with a filter, so it isn't scored.`
+      : `${funder.name} doesn't pass your filter "${explanation.excluded_by.description}", so it isn't scored.`;
+  }
+
+  if (!match) {
+    return explanation.feedback
+      ? `You marked ${funder.name} as ${explanation.feedback.verdict.replace(/_/g, " ")}, so it is hidden from your matches.`
+      : `${funder.name} could not be scored for this charity.`;
+  }
+
+  const parts: string[] = [];
+
+  if (explanation.in_top_matches) {
+    parts.push(
+      `${funder.name} is already in your top ${top_count}, at number ${rank} with ${match.match_score}%.`
+    );
+  } else {
+    parts.push(
+      `${funder.name} ranks ${rank} of ${total} with ${match.match_score}%` +
+        (cutoff_score !== null
+          ? `, ${cutoff_score - match.match_score} points below the last of your top ${top_count} (${cutoff_score}%).`
+          : ".")
+    );
+  }
+
+  if (!explanation.shortlisted && explanation.prescore_rank !== null) {
+    parts.push(
+      `Pre-screening placed it ${explanation.prescore_rank} of ${explanation.prescore_total} funders, outside the ${PRESCORE_CANDIDATE_LIMIT} sent for full analysis, so it was scored separately.`
+    );
+  }
+
+  const [first, second] = explanation.held_back_by;
+  if (first && !explanation.in_top_matches) {
+    const describe = (s: FactorShortfall) =>
+      `${s.factor.replace(/_/g, " ")} (${s.score} against ${s.benchmark} for your top matches)`;
+    parts.push(
+      `It is held back most by ${describe(first)}${second ? ` and ${describe(second)}` : ""}.`
+    );
+  }
+
+  return parts.join(" ");
+}
+
+/**
+ * Ranking points including the boost for funders marked relevant, matching
+ * how rankMatches orders the list
+ */
+function rankScore(match: FunderMatch): number {
+  return (
+    match.match_score +
+    (match.feedback?.verdict === "relevant" ? FEEDBACK_RANK_BOOST : 0)
+  );
+}
+
+/**
+ * The charity's feedback on the funder, if any and if it can be loaded
+ */
+async function loadFunderFeedback(
+  charityNumber: number,
+  funderOrgId: string
+): Promise<MatchFeedback | null> {
+  try {
+    return (await getMatchFeedback(charityNumber)).get(funderOrgId) || null;
+  } catch (error) {
+    console.warn("⚠️ Could not load match feedback:", error);
+    return null;
+  }
+}
@@ -0,0 +1,208 @@
+import { z } from "zod";
+import { supabase } from "@/lib/supabase";
+import { EXCLUDED_FEEDBACK_VERDICTS } from "@/lib/scoring";
+import type {
+  FunderFeedbackSummary,
+  FunderMatch,
+  MatchFeedback,
+  MatchFeedbackVerdict,
+} from "@/types";
+
+const PAGE_SIZE = 1000;
+
+export const FEEDBACK_VERDICTS = [
+  "relevant",
+  "not_relevant",
+  "already_applied",
+  "ineligible",
+] as const satisfies readonly MatchFeedbackVerdict[];
+
+/**
+ * Validates feedback submitted from the funders page
+ */
+export const matchFeedbackSchema = z.object({
+  charity_number: z.number().int().positive(),
+  funder_org_id: z.string().trim().min(1),
+  verdict: z.enum(FEEDBACK_VERDICTS),
+  reason: z.string().trim().max(1000).nullish(),
+  match_score: z.number().int().min(0).max(100).nullish(),
+});
+
+/**
+ * Save feedback for a funder, replacing any earlier verdict from the charity
+ */
+export async function saveMatchFeedback(
+  feedback: MatchFeedback
+): Promise<MatchFeedback> {
+  const { data, error } = await supabase
+    .from("match_feedback")
+    .upsert(
+      {
+        charity_number: feedback.charity_number,
+        funder_org_id: feedback.funder_org_id,
+        verdict: feedback.verdict,
+        reason: feedback.reason || null,
+        match_score: feedback.match_score ?? null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "charity_number,funder_org_id" }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save feedback: ${error.message}`);
+  }
+
+  console.log(
+    `💾 Saved ${feedback.verdict} feedback on ${feedback.funder_org_id} for charity ${feedback.charity_number}`
+  );
+  return data as MatchFeedback;
+}
+
+/**
+ * Remove a charity's feedback on a funder
+ */
+export async function deleteMatchFeedback(
+  charityNumber: number,
+  funderOrgId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from("match_feedback")
+    .delete()
+    .eq("charity_number", charityNumber)
+    .eq("funder_org_id", funderOrgId);
+
+  if (error) {
+    throw new Error(`Failed to delete feedback: ${error.message}`);
+  }
+}
+
+/**
+ * Get all of a charity's feedback keyed by funder org ID
+ */
+export async function getMatchFeedback(
+  charityNumber: number
+): Promise<Map<string, MatchFeedback>> {
+  const { data, error } = await supabase
+    .from("match_feedback")
+    .select("*")
+    .eq("charity_number", charityNumber);
+
+  if (error) {
+    throw new Error(`Failed to fetch feedback: ${error.message}`);
+  }
+
+  return new Map(
+    ((data || []) as MatchFeedback[]).map((f) => [f.funder_org_id, f])
+  );
+}
+
+/**
+ * Attach the charity's feedback to each match and drop the funders it has
+ * marked as not relevant or ineligible
+ */
+export function applyMatchFeedback(
+  matches: FunderMatch[],
+  feedback: Map<string, MatchFeedback>
+): FunderMatch[] {
+  return matches.flatMap((match) => {
+    const entry = feedback.get(match.funder.org_id);
+    if (!entry) return [match];
+    if (EXCLUDED_FEEDBACK_VERDICTS.includes(entry.verdict)) return [];
+    return [{ ...match, feedback: entry }];
+  });
+}
+
+/**
+ * Aggregate feedback per funder, most often rejected first, to show which
+ * recommendations the model keeps getting wrong
+ */
+export async function getFeedbackSummary(): Promise<FunderFeedbackSummary[]> {
+  const rows: MatchFeedback[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("match_feedback")
+      .select("*")
+      .order("updated_at", { ascending: false })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch feedback: ${error.message}`);
+    }
+
+    rows.push(...((data || []) as MatchFeedback[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const byFunder = new Map<string, MatchFeedback[]>();
+  for (const row of rows) {
+    const list = byFunder.get(row.funder_org_id) || [];
+    list.push(row);
+    byFunder.set(row.funder_org_id, list);
+  }
+
+  const names = await fetchFunderNames(Array.from(byFunder.keys()));
+
+  return Array.from(byFunder.entries())
+    .map(([funderOrgId, entries]) => {
+      const verdicts = Object.fromEntries(
+        FEEDBACK_VERDICTS.map((v) => [
+          v,
+          entries.filter((e) => e.verdict === v).length,
+        ])
+      ) as Record<MatchFeedbackVerdict, number>;
+      const negative = EXCLUDED_FEEDBACK_VERDICTS.reduce(
+        (sum, v) => sum + verdicts[v],
+        0
+      );
+      const scores = entries
+        .map((e) => e.match_score)
+        .filter((s): s is number => typeof s === "number");
+
+      return {
+        funder_org_id: funderOrgId,
+        funder_name: names.get(funderOrgId) || null,
+        total: entries.length,
+        verdicts,
+        negative_rate: Math.round((100 * negative) / entries.length),
+        avg_match_score: scores.length
+          ? Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length)
+          : null,
+        // Rows are already most recent first
+        recent_reasons: entries
+          .filter(
+            (e) => e.reason && EXCLUDED_FEEDBACK_VERDICTS.includes(e.verdict)
+          )
+          .slice(0, 3)
+          .map((e) => e.reason as string),
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.negative_rate * b.total - a.negative_rate * a.total ||
+        b.total - a.total
+    );
+}
+
+/**
+ * Look up funder names for the summary
+ */
+async function fetchFunderNames(orgIds: string[]): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+
+  // Fetch in chunks to keep the request URL short
+  for (let i = 0; i < orgIds.length; i += 100) {
+    const { data } = await supabase
+      .from("organisations")
+      .select("org_id, name")
+      .in("org_id", orgIds.slice(i, i + 100));
+
+    for (const org of data || []) {
+      names.set(org.org_id, org.name);
+    }
+  }
+
+  return names;
+}
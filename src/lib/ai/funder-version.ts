@@ -0,0 +1,99 @@
+import { supabase } from "@/lib/supabase";
+import type { Grant, Organisation } from "@/types";
+import crypto from "crypto";
+
+type LatestGrant = Pick<Grant, "grant_id" | "award_date" | "amount_awarded">;
+
+// A row of the funder_version_data function
+interface FunderVersionData
+  extends Pick<Organisation, "org_id" | "funder_stats" | "last_grant_made_date"> {
+  grant_count: number;
+  latest_grant_id: string | null;
+  latest_award_date: Grant["award_date"];
+  latest_amount_awarded: Grant["amount_awarded"];
+}
+
+/**
+ * Hash the funder data a match result depends on: the funder's stats, how
+ * many grants we hold for it and its most recent grant
+ * Any change in a sync produces a new version for that funder only
+ */
+export function computeFunderVersion(
+  funder: Pick<Organisation, "funder_stats" | "last_grant_made_date">,
+  grantCount: number,
+  latestGrant: LatestGrant | null
+): string {
+  const data = {
+    funder_stats: funder.funder_stats ?? null,
+    last_grant_made_date: funder.last_grant_made_date ?? null,
+    grant_count: grantCount,
+    latest_grant: latestGrant
+      ? {
+          grant_id: latestGrant.grant_id,
+          award_date: latestGrant.award_date,
+          amount_awarded: Number(latestGrant.amount_awarded) || 0,
+        }
+      : null,
+  };
+
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify(data))
+    .digest("hex")
+    .substring(0, 16);
+}
+
+/**
+ * Pick the grant that counts as latest, breaking award date ties by grant ID
+ * so every caller agrees on it
+ */
+export function findLatestGrant<T extends LatestGrant>(grants: T[]): T | null {
+  return grants.reduce<T | null>((latest, grant) => {
+    if (!latest) return grant;
+    const byDate = (grant.award_date || "").localeCompare(
+      latest.award_date || ""
+    );
+    return byDate > 0 || (byDate === 0 && grant.grant_id > latest.grant_id)
+      ? grant
+      : latest;
+  }, null);
+}
+
+/**
+ * Compute the current data version of each funder from the database
+ */
+export async function getFunderVersions(
+  orgIds: string[]
+): Promise<Map<string, string>> {
+  const versions = new Map<string, string>();
+
+  // Chunked to keep each call's result within the Supabase row limit
+  for (let i = 0; i < orgIds.length; i += 1000) {
+    const { data, error } = await supabase.rpc("funder_version_data", {
+      funder_ids: orgIds.slice(i, i + 1000),
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch funder versions: ${error.message}`);
+    }
+
+    for (const row of (data || []) as FunderVersionData[]) {
+      versions.set(
+        row.org_id,
+        computeFunderVersion(
+          row,
+          Number(row.grant_count) || 0,
+          row.latest_grant_id
+            ? {
+                grant_id: row.latest_grant_id,
+                award_date: row.latest_award_date,
+                amount_awarded: row.latest_amount_awarded,
+              }
+            : null
+        )
+      );
+    }
+  }
+
+  return versions;
+}
@@ -0,0 +1,233 @@
+import { z } from "zod";
+import { hasMatchFilters, normaliseMatchFilters } from "@/lib/match-filters";
+import { supabase } from "@/lib/supabase";
+import type {
+  CharityProfile,
+  FunderMatch,
+  MatchFilters,
+  MatchJob,
+  MatchProgressEvent,
+  ScoreWeights,
+} from "@/types";
+import { matchFunders } from "./matching";
+
+// Columns returned to clients; the request inputs stay server-side
+const JOB_COLUMNS =
+  "id, charity_number, charity_name, status, filters, progress, matches, message, cached, budget_exhausted, fallback, error, created_at, started_at, completed_at, updated_at";
+
+// Least time between progress writes while a job runs
+const PROGRESS_WRITE_INTERVAL_MS = 1000;
+
+// Unfinished jobs with no writes for this long are reported as failed, e.g.
+// when the function running them timed out
+const STALE_JOB_MINUTES = 15;
+
+// Jobs are keyed by UUID, so any other ID can't name one
+const jobIdSchema = z.uuid();
+
+type BudgetNotice = Extract<MatchProgressEvent, { type: "notice" }>;
+
+interface MatchJobOptions {
+  weights?: Partial<ScoreWeights>;
+  forceRefresh?: boolean;
+  filters?: MatchFilters;
+  // Time (ms since epoch) by which the job must finish or be marked failed
+  deadline?: number;
+}
+
+/**
+ * Record a queued matching job for a charity
+ */
+export async function createMatchJob(
+  charityProfile: CharityProfile,
+  options: MatchJobOptions = {}
+): Promise<MatchJob> {
+  const { data, error } = await supabase
+    .from("match_jobs")
+    .insert({
+      charity_number: charityProfile.reg_charity_number,
+      charity_name: charityProfile.charity_name,
+      charity_profile: charityProfile,
+      weights: options.weights ?? null,
+      force_refresh: options.forceRefresh ?? false,
+      filters:
+        options.filters && hasMatchFilters(options.filters)
+          ? normaliseMatchFilters(options.filters)
+          : null,
+    })
+    .select(JOB_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create match job: ${error.message}`);
+  }
+
+  return data as MatchJob;
+}
+
+/**
+ * Run a queued job to completion, recording progress, the matches scored so
+ * far and the result. Failures are recorded on the job rather than thrown
+ * A job still running at its deadline is recorded as failed, so it doesn't
+ * sit as "running" after the function running it is stopped
+ */
+export async function runMatchJob(
+  jobId: string,
+  charityProfile: CharityProfile,
+  options: MatchJobOptions = {}
+): Promise<void> {
+  const scored: FunderMatch[] = [];
+  let latestProgress: MatchProgressEvent | null = null;
+  let notice: BudgetNotice | null = null;
+  // Set when matchFunders serves the results from the cache
+  let cacheHit = false;
+  let lastWriteAt = 0;
+  let timedOut = false;
+  let deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+  // Writes are chained so they land in order, even after one fails
+  let writes = Promise.resolve();
+
+  const write = (update: Record<string, unknown>) => {
+    writes = writes
+      .catch(() => {})
+      .then(() => updateMatchJob(jobId, update));
+    return writes;
+  };
+
+  const writeProgress = () => {
+    lastWriteAt = Date.now();
+    write({ progress: latestProgress, matches: scored }).catch((error) =>
+      console.warn(
+        `⚠️ Could not record progress for match job ${jobId}:`,
+        error
+      )
+    );
+  };
+
+  try {
+    await write({ status: "running", started_at: new Date().toISOString() });
+    console.log(
+      `🏃 Running match job ${jobId} for ${charityProfile.charity_name}`
+    );
+
+    const run = matchFunders(charityProfile, {
+      forceRefresh: options.forceRefresh,
+      weights: options.weights,
+      filters: options.filters,
+      onEvent: (event) => {
+        if (timedOut) return;
+        if (event.type === "notice") {
+          notice = event;
+          return;
+        }
+        if (event.type === "match") {
+          scored.push(event.match);
+        } else {
+          latestProgress = event;
+          if (event.stage === "cached") cacheHit = true;
+        }
+        if (Date.now() - lastWriteAt >= PROGRESS_WRITE_INTERVAL_MS) {
+          writeProgress();
+        }
+      },
+    });
+
+    const { deadline } = options;
+    const matches =
+      deadline === undefined
+        ? await run
+        : await Promise.race([
+            run,
+            new Promise<never>((_, reject) => {
+              deadlineTimer = setTimeout(() => {
+                timedOut = true;
+                reject(
+                  new Error(
+                    "Matching didn't finish within the time limit for background jobs"
+                  )
+                );
+              }, deadline - Date.now());
+            }),
+          ]);
+
+    // Set by onEvent, which narrowing can't see
+    const budgetNotice = notice as BudgetNotice | null;
+    await write({
+      status: "succeeded",
+      progress: null,
+      matches,
+      message:
+        budgetNotice?.message ||
+        `Successfully matched ${matches.length} funders`,
+      cached: cacheHit || budgetNotice?.fallback === "cached",
+      budget_exhausted: Boolean(budgetNotice),
+      fallback: budgetNotice?.fallback ?? null,
+      completed_at: new Date().toISOString(),
+    });
+    console.log(`✅ Match job ${jobId} found ${matches.length} funders`);
+  } catch (error) {
+    console.error(`Match job ${jobId} failed:`, error);
+    await write({
+      status: "failed",
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      completed_at: new Date().toISOString(),
+    }).catch((writeError) =>
+      console.error(
+        `Failed to record failure of match job ${jobId}:`,
+        writeError
+      )
+    );
+  } finally {
+    clearTimeout(deadlineTimer);
+  }
+}
+
+/**
+ * Get a job by ID, or null if there is none
+ * An unfinished job that has stopped updating is marked as failed
+ */
+export async function getMatchJob(id: string): Promise<MatchJob | null> {
+  if (!jobIdSchema.safeParse(id).success) return null;
+
+  const { data, error } = await supabase
+    .from("match_jobs")
+    .select(JOB_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch match job: ${error.message}`);
+  }
+
+  const job = data as MatchJob | null;
+  if (!job || (job.status !== "queued" && job.status !== "running")) {
+    return job;
+  }
+
+  const idleMs = Date.now() - new Date(job.updated_at).getTime();
+  if (idleMs < STALE_JOB_MINUTES * 60 * 1000) {
+    return job;
+  }
+
+  const failed = {
+    status: "failed" as const,
+    error: `Matching stopped responding after ${STALE_JOB_MINUTES} minutes`,
+    completed_at: new Date().toISOString(),
+  };
+  await updateMatchJob(id, failed);
+  return { ...job, ...failed };
+}
+
+async function updateMatchJob(
+  id: string,
+  update: Record<string, unknown>
+): Promise<void> {
+  const { error } = await supabase
+    .from("match_jobs")
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) {
+    throw new Error(`Failed to update match job: ${error.message}`);
+  }
+}
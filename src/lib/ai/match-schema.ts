@@ -0,0 +1,178 @@
+import { z } from "zod";
+
+/**
+ * Schema for the structured output Claude returns from funder matching
+ * The same schema drives the tool definition sent to the model and the
+ * validation applied to its response
+ */
+
+const scoreSchema = z.number().int().min(0).max(100);
+
+export const scoreBreakdownSchema = z.object({
+  mission_alignment: scoreSchema.describe(
+    "Alignment of the funder's historical giving with the charity's purposes, activities and beneficiaries"
+  ),
+  geographic_fit: scoreSchema.describe(
+    "Whether the funder supports organisations in the charity's area"
+  ),
+  size_compatibility: scoreSchema.describe(
+    "Whether the charity's income is in the range this funder supports"
+  ),
+  activity_level: scoreSchema.describe(
+    "How recently and frequently the funder makes grants"
+  ),
+  historical_precedent: scoreSchema.describe(
+    "Whether the funder has supported similar charities before"
+  ),
+});
+
+const citedGrantsSchema = z.array(z.string().min(1));
+
+export const matchEvidenceSchema = z.object({
+  mission_alignment: citedGrantsSchema,
+  geographic_fit: citedGrantsSchema,
+  size_compatibility: citedGrantsSchema,
+  activity_level: citedGrantsSchema,
+  historical_precedent: citedGrantsSchema,
+});
+
+export const similarCharitySchema = z.object({
+  charity_name: z.string().min(1),
+  grant_amount: z.number().min(0),
+  award_date: z.string(),
+  grant_purpose: z.string(),
+});
+
+export const matchResponseItemSchema = z.object({
+  funder_org_id: z
+    .string()
+    .min(1)
+    .describe("Org ID exactly as given in the funder list"),
+  match_score: scoreSchema.describe("Overall match score"),
+  score_breakdown: scoreBreakdownSchema,
+  reasoning: z
+    .string()
+    .min(1)
+    .describe("Specific, evidence-based explanation of the match"),
+  evidence: matchEvidenceSchema.describe(
+    "Grant IDs from this funder's listed grants that support each factor score"
+  ),
+  similar_charities_funded: z.array(similarCharitySchema),
+});
+
+export const matchResponseSchema = z.object({
+  matches: z.array(matchResponseItemSchema),
+});
+
+export type MatchResponseItem = z.infer<typeof matchResponseItemSchema>;
+
+export const MATCH_TOOL_NAME = "record_funder_matches";
+
+/**
+ * Tool definition that forces Claude to return matches as structured input
+ */
+export function getMatchTool() {
+  return {
+    name: MATCH_TOOL_NAME,
+    description:
+      "Record the scored funder matches for the charity. Include only funders from the provided list.",
+    input_schema: toToolInputSchema(matchResponseSchema),
+  };
+}
+
+/**
+ * Convert a schema to a tool's input schema. Anthropic expects a bare object
+ * schema without the $schema marker
+ */
+export function toToolInputSchema(schema: z.ZodType): {
+  type: "object";
+  [key: string]: unknown;
+} {
+  const inputSchema: Record<string, unknown> = z.toJSONSchema(schema);
+  delete inputSchema.$schema;
+  return inputSchema as { type: "object"; [key: string]: unknown };
+}
+
+/**
+ * Coerce common near-misses into the expected shape before validation:
+ * numeric strings, out-of-range or fractional scores, a missing overall
+ * score, missing evidence lists, and malformed similar-charity examples
+ */
+export function repairMatchItem(raw: unknown): unknown {
+  if (!raw || typeof raw !== "object") return raw;
+  const item = { ...(raw as Record<string, unknown>) };
+
+  const toScore = (value: unknown): unknown => {
+    const num = typeof value === "string" ? Number(value) : value;
+    if (typeof num !== "number" || Number.isNaN(num)) return value;
+    return Math.max(0, Math.min(100, Math.round(num)));
+  };
+
+  if (item.score_breakdown && typeof item.score_breakdown === "object") {
+    const breakdown = { ...(item.score_breakdown as Record<string, unknown>) };
+    for (const key of Object.keys(scoreBreakdownSchema.shape)) {
+      breakdown[key] = toScore(breakdown[key]);
+    }
+    item.score_breakdown = breakdown;
+  }
+
+  if (item.match_score === undefined || item.match_score === null) {
+    const parsed = scoreBreakdownSchema.safeParse(item.score_breakdown);
+    if (parsed.success) {
+      const values = Object.values(parsed.data);
+      item.match_score = values.reduce((sum, v) => sum + v, 0) / values.length;
+    }
+  }
+  item.match_score = toScore(item.match_score);
+
+  if (typeof item.funder_org_id === "string") {
+    item.funder_org_id = item.funder_org_id.trim();
+  }
+
+  // Missing or malformed evidence lists become empty lists
+  const evidence =
+    item.evidence && typeof item.evidence === "object"
+      ? (item.evidence as Record<string, unknown>)
+      : {};
+  item.evidence = Object.fromEntries(
+    Object.keys(matchEvidenceSchema.shape).map((factor) => [
+      factor,
+      Array.isArray(evidence[factor])
+        ? (evidence[factor] as unknown[]).filter(
+            (id): id is string => typeof id === "string" && id.length > 0
+          )
+        : [],
+    ])
+  );
+
+  // Keep only the examples that validate once amounts are coerced
+  item.similar_charities_funded = Array.isArray(item.similar_charities_funded)
+    ? item.similar_charities_funded.flatMap((example) => {
+        const candidate =
+          example && typeof example === "object"
+            ? {
+                ...example,
+                grant_amount: Number(
+                  (example as Record<string, unknown>).grant_amount
+                ),
+                grant_purpose:
+                  (example as Record<string, unknown>).grant_purpose ?? "",
+              }
+            : example;
+        const parsed = similarCharitySchema.safeParse(candidate);
+        return parsed.success ? [parsed.data] : [];
+      })
+    : [];
+
+  return item;
+}
+
+/**
+ * Describe a zod error compactly enough to send back to the model
+ */
+export function formatValidationError(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 10)
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("; ");
+}
@@ -1,40 +1,84 @@
-import { getClaudeClient } from "./claude-client";
+import {
+  formatValidationError,
+  matchResponseItemSchema,
+  repairMatchItem,
+} from "./match-schema";
+import { getMatchingProvider, type MatchingProvider } from "./provider";
+import {
+  attachSampleGrants,
+  prescoreFunders,
+  type FunderCandidate,
+} from "./prescoring";
+import {
+  retrieveRelevantGrants,
+  type RetrievalResult,
+  type RetrievedGrant,
+} from "./retrieval";
+import { verifySimilarCharities } from "./verification";
+import { attachAskRanges } from "./ask-range";
+import { applyMatchFeedback, getMatchFeedback } from "./feedback";
+import { recordMatchRun } from "./runs";
+import { getFunderVersions } from "./funder-version";
+import { OfflineProvider } from "./offline-provider";
+import { checkAiBudget } from "./usage";
+import { withModelSlot } from "./model-queue";
+import { getMatchingPrompt, type MatchingPrompt } from "./prompts";
 import { supabase } from "@/lib/supabase";
+import {
+  SCORE_FACTORS,
+  computeMatchScore,
+  rankMatches,
+} from "@/lib/scoring";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { buildSeasonality, SEASONALITY_YEARS } from "@/lib/seasonality";
+import { aggregateByCurrency, aggregateInGbp } from "@/lib/currency";
+import { getExchangeRateDate, getExchangeRates } from "@/lib/exchange-rates";
+import { hasMatchFilters, normaliseMatchFilters } from "@/lib/match-filters";
 import type {
   CharityProfile,
+  CurrencyAggregate,
+  ExchangeRates,
   FunderMatch,
+  FunderSeasonality,
+  MatchEvidence,
+  MatchFeedback,
+  MatchFilters,
+  MatchProgressEvent,
   Organisation,
   Grant,
+  ScoreBreakdown,
+  ScoreWeights,
 } from "@/types";
 import crypto from "crypto";
 
 // Cache configuration
 const CACHE_TTL_DAYS = 7;
 
-interface FunderWithGrants {
-  funder: Organisation;
-  grants: Grant[];
-}
+// Batching configuration: funders per model call and calls in flight at once
+const MATCH_BATCH_SIZE = 25;
+const MATCH_BATCH_CONCURRENCY = 3;
 
-interface MatchResponseItem {
-  funder_org_id: string;
-  match_score: number;
-  score_breakdown: {
-    mission_alignment: number;
-    geographic_fit: number;
-    size_compatibility: number;
-    activity_level: number;
-    historical_precedent: number;
-  };
-  reasoning: string;
-  similar_charities_funded?: Array<{
-    charity_name: string;
-    grant_amount: number;
-    award_date: string;
-    grant_purpose: string;
-  }>;
+// Supabase returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+/**
+ * Progress of a matching run, for one of the requests waiting on it
+ */
+interface RunListener {
+  // The request joined a run another request had started
+  onJoined: () => void;
+  // Place in the model queue of the run's first waiting batch, 0 once none wait
+  onQueued: (position: number) => void;
+  onScored: (match: FunderMatch, scored: number) => void;
 }
 
+// Matching runs in flight, by cache key, so concurrent identical requests
+// share one set of model calls
+const inFlightRuns = new Map<
+  string,
+  { promise: Promise<FunderMatch[]>; listeners: Set<RunListener> }
+>();
+
 interface CacheResult {
   hit: boolean;
   matches?: FunderMatch[];
@@ -43,12 +87,19 @@ interface CacheResult {
 }
 
 /**
- * Generate a cache key based on charity details and funder list
- * This ensures cache invalidation when either charity or funder data changes
+ * Generate a cache key based on charity details, funder list, model,
+ * prompt version, filters and, with grant size filters, the exchange rates'
+ * date
+ * Changes to the funders' own data are caught by the per-funder data
+ * versions stored alongside each entry
  */
 function generateCacheKey(
   charityProfile: CharityProfile,
-  funderOrgIds: string[]
+  funderOrgIds: string[],
+  model: string,
+  promptVersion: string,
+  filters: MatchFilters,
+  rateDate: string | null
 ): string {
   // Extract relevant charity details for hashing
   const charityDetails = {
@@ -77,7 +128,18 @@ function generateCacheKey(
   const sortedFunderIds = [...funderOrgIds].sort().join(",");
 
   // Create hash from combined data
-  const dataToHash = JSON.stringify({ charityDetails, funderIds: sortedFunderIds });
+  const dataToHash = JSON.stringify({
+    charityDetails,
+    funderIds: sortedFunderIds,
+    model,
+    promptVersion,
+    // Unfiltered requests keep the keys they had before filters existed
+    ...(hasMatchFilters(filters) && { filters }),
+    // Grant size filters are applied in GBP, so results filtered with older
+    // exchange rates aren't reused
+    ...((filters.min_grant !== undefined ||
+      filters.max_grant !== undefined) && { rateDate }),
+  });
   return crypto.createHash("sha256").update(dataToHash).digest("hex").substring(0, 32);
 }
 
@@ -95,15 +157,17 @@ function getIncomeBucket(income: number): string {
 
 /**
  * Check cache for existing match results
+ * An entry only counts as a hit if every funder's data version still matches
  */
 async function checkCache(
   charityNumber: number,
-  cacheKey: string
+  cacheKey: string,
+  funderVersions: Record<string, string>
 ): Promise<CacheResult> {
   try {
     const { data, error } = await supabase
       .from("match_cache")
-      .select("matches, created_at, expires_at")
+      .select("matches, funder_versions, created_at, expires_at")
       .eq("charity_number", charityNumber)
       .eq("cache_key", cacheKey)
       .gt("expires_at", new Date().toISOString())
@@ -113,6 +177,20 @@ async function checkCache(
       return { hit: false, cacheKey };
     }
 
+    const cachedVersions = (data.funder_versions || {}) as Record<
+      string,
+      string
+    >;
+    const stale = Object.entries(funderVersions).filter(
+      ([orgId, version]) => cachedVersions[orgId] !== version
+    );
+    if (stale.length > 0) {
+      console.log(
+        `🔄 Cache stale for charity ${charityNumber}: ${stale.length} funders changed since it was saved`
+      );
+      return { hit: false, cacheKey };
+    }
+
     console.log(`📦 Cache hit for charity ${charityNumber}`);
     return {
       hit: true,
@@ -125,24 +203,32 @@ async function checkCache(
   }
 }
 
+/**
+ * Get the completion time of the last successful data sync
+ */
+async function getLastSyncAt(): Promise<string | null> {
+  const { data: lastSync } = await supabase
+    .from("sync_logs")
+    .select("completed_at")
+    .eq("status", "completed")
+    .order("completed_at", { ascending: false })
+    .limit(1)
+    .single();
+
+  return lastSync?.completed_at || null;
+}
+
 /**
  * Save match results to cache
  */
 async function saveToCache(
   charityProfile: CharityProfile,
   cacheKey: string,
-  matches: FunderMatch[]
+  matches: FunderMatch[],
+  funderVersions: Record<string, string>,
+  lastSyncAt: string | null
 ): Promise<void> {
   try {
-    // Get the last sync timestamp
-    const { data: lastSync } = await supabase
-      .from("sync_logs")
-      .select("completed_at")
-      .eq("status", "completed")
-      .order("completed_at", { ascending: false })
-      .limit(1)
-      .single();
-
     const expiresAt = new Date();
     expiresAt.setDate(expiresAt.getDate() + CACHE_TTL_DAYS);
 
@@ -153,7 +239,9 @@ async function saveToCache(
         charity_name: charityProfile.charity_name,
         matches: matches,
         funder_count: matches.length,
-        last_sync_at: lastSync?.completed_at || null,
+        funder_org_ids: Object.keys(funderVersions),
+        funder_versions: funderVersions,
+        last_sync_at: lastSyncAt,
         created_at: new Date().toISOString(),
         expires_at: expiresAt.toISOString(),
       },
@@ -170,156 +258,312 @@ async function saveToCache(
 }
 
 /**
- * Invalidate cache entries older than a given sync date
+ * Invalidate the cache entries that involve any of the given funders and
+ * were saved with a different data version than the funder has now
+ * Called after a sync with the funders it touched
+ * @returns Number of entries deleted
  */
-export async function invalidateCacheBeforeSync(syncDate: string): Promise<number> {
+export async function invalidateCacheForFunders(
+  funderOrgIds: string[]
+): Promise<number> {
+  if (funderOrgIds.length === 0) return 0;
+
   try {
-    const { data, error } = await supabase
-      .from("match_cache")
-      .delete()
-      .lt("last_sync_at", syncDate)
-      .select("id");
+    const current = await getFunderVersions(funderOrgIds);
+    const staleIds: string[] = [];
+
+    // Check in chunks to keep the request URL short
+    for (let i = 0; i < funderOrgIds.length; i += 100) {
+      const chunk = funderOrgIds.slice(i, i + 100);
+      const { data, error } = await supabase
+        .from("match_cache")
+        .select("id, funder_versions")
+        .overlaps("funder_org_ids", chunk);
+
+      if (error) {
+        console.error("Failed to find cache entries to invalidate:", error);
+        continue;
+      }
 
-    if (error) {
-      console.error("Failed to invalidate cache:", error);
-      return 0;
+      for (const entry of data || []) {
+        const versions = (entry.funder_versions || {}) as Record<
+          string,
+          string
+        >;
+        const changed = chunk.some(
+          (orgId) => orgId in versions && versions[orgId] !== current.get(orgId)
+        );
+        if (changed) {
+          staleIds.push(entry.id);
+        }
+      }
     }
 
-    return data?.length || 0;
-  } catch {
+    const uniqueIds = Array.from(new Set(staleIds));
+    for (let i = 0; i < uniqueIds.length; i += 100) {
+      const { error } = await supabase
+        .from("match_cache")
+        .delete()
+        .in("id", uniqueIds.slice(i, i + 100));
+
+      if (error) {
+        console.error("Failed to invalidate cache:", error);
+      }
+    }
+
+    console.log(
+      `🗑️ Invalidated ${uniqueIds.length} cached results involving ${funderOrgIds.length} synced funders`
+    );
+    return uniqueIds.length;
+  } catch (error) {
+    console.error("Failed to invalidate cache:", error);
     return 0;
   }
 }
 
 /**
- * System prompt for AI funder matching
- * This instructs Claude on how to analyze and score funder matches
+ * Invalidate every cached result for a charity, e.g. after its profile was
+ * edited in ways the cache key doesn't capture
  */
-const MATCHING_SYSTEM_PROMPT = `You are an expert grant advisor for UK charities. Your role is to analyze charity profiles and match them with the most suitable funders based on historical grant data.
-
-When analyzing matches, consider these key factors:
-
-1. **Mission Alignment** (0-100): How well does the funder's historical giving align with the charity's charitable purposes, activities, and beneficiaries?
-2. **Geographic Fit** (0-100): Does the funder support organizations in the charity's geographic area?
-3. **Size Compatibility** (0-100): Is the charity's income level within the typical range of organizations this funder supports?
-4. **Activity Level** (0-100): How recently and frequently has this funder made grants? Are they actively giving?
-5. **Historical Precedent** (0-100): Has the funder supported similar charities in the past?
-
-For each funder, provide:
-- Overall match score (weighted average of the 5 factors)
-- Score breakdown for each factor
-- Clear reasoning explaining why this funder is a good match
-- Specific examples of similar charities they've funded
+export async function invalidateCacheForCharity(
+  charityNumber: number
+): Promise<void> {
+  const { error } = await supabase
+    .from("match_cache")
+    .delete()
+    .eq("charity_number", charityNumber);
+
+  if (error) {
+    console.error("Failed to invalidate cache:", error);
+    return;
+  }
 
-Be specific, evidence-based, and actionable in your recommendations.`;
+  console.log(`🗑️ Invalidated cached results for charity ${charityNumber}`);
+}
 
 /**
  * Match a charity profile with the most suitable funders from the database
  * Results are cached to avoid repeated Claude API calls
  * 
  * @param charityProfile - The charity to match
- * @param options - Optional settings (forceRefresh to bypass cache)
- * @returns Array of funder matches with scores and reasoning
+ * @param options - Optional settings (forceRefresh to bypass cache, weights
+ *   to change how factors combine into match_score, onEvent to receive
+ *   progress and each match as soon as it has been parsed, promptVersion to
+ *   pick a stored prompt, limit on the matches returned, persist: false
+ *   to neither read nor write the cache and run history, e.g. in evaluations,
+ *   asOf to match on the grant data from before that date, for
+ *   backtesting, and filters that limit which funders can be returned.
+ *   Historical matches are never persisted and ignore feedback)
+ * @returns Array of funder matches with scores, reasoning and a suggested ask
  */
 export async function matchFunders(
   charityProfile: CharityProfile,
-  options: { forceRefresh?: boolean } = {}
+  options: {
+    forceRefresh?: boolean;
+    weights?: Partial<ScoreWeights>;
+    onEvent?: (event: MatchProgressEvent) => void;
+    promptVersion?: string;
+    limit?: number;
+    persist?: boolean;
+    asOf?: string;
+    filters?: MatchFilters;
+  } = {}
 ): Promise<FunderMatch[]> {
-  const { forceRefresh = false } = options;
+  const { forceRefresh = false, weights, onEvent, limit = 20, asOf } = options;
+  const filters = normaliseMatchFilters(options.filters ?? {});
+  // Cache keys and run history don't record a cut-off date
+  const persist = !asOf && (options.persist ?? true);
+  const prompt = getMatchingPrompt(options.promptVersion);
 
   try {
-    // Step 1: Query funders with their grant statistics
-    const { data: funders, error: fundersError } = await supabase
-      .from("organisations")
-      .select("*")
-      .eq("is_funder", true)
-      .order("funder_stats->aggregate->grants", { ascending: false })
-      .limit(50);
-
-    if (fundersError) {
-      throw new Error(`Failed to fetch funders: ${fundersError.message}`);
-    }
-
-    if (!funders || funders.length === 0) {
-      throw new Error("No funders found in database");
-    }
+    onEvent?.({
+      type: "progress",
+      stage: "loading_funders",
+      message: "Loading funders",
+    });
 
-    // Step 2: Generate cache key based on charity + funder list
-    const funderOrgIds = funders.map((f) => f.org_id);
-    const cacheKey = generateCacheKey(charityProfile, funderOrgIds);
+    // Step 1: Pre-score the funders that pass the filters and keep the
+    // strongest candidates
+    const { retrieval, candidates, funderOrgIds, funderVersions, rateDate } =
+      await prepareCandidates(charityProfile, { asOf, filters });
+
+    await attachRelevantGrants(candidates, retrieval.grantsByFunder);
+
+    // The charity's feedback is applied to the results, never to the cache,
+    // so a change of verdict takes effect without another model call
+    const feedback = asOf
+      ? new Map<string, MatchFeedback>()
+      : await loadFeedback(charityProfile.reg_charity_number);
+
+    // Step 2: Generate cache key based on charity + funder list + model
+    let provider = getMatchingProvider();
+    let cacheKey = generateCacheKey(
+      charityProfile,
+      funderOrgIds,
+      provider.model,
+      prompt.version,
+      filters,
+      rateDate
+    );
 
     // Step 3: Check cache (unless force refresh requested)
-    if (!forceRefresh) {
+    if (!forceRefresh && persist) {
       const cacheResult = await checkCache(
         charityProfile.reg_charity_number,
-        cacheKey
+        cacheKey,
+        funderVersions
       );
 
       if (cacheResult.hit && cacheResult.matches) {
-        return cacheResult.matches;
+        onEvent?.({
+          type: "progress",
+          stage: "cached",
+          message: "Using cached results",
+        });
+        return attachAskRanges(
+          charityProfile,
+          rankMatches(
+            applyMatchFeedback(cacheResult.matches, feedback),
+            weights
+          ).slice(0, limit)
+        );
       }
-    } else {
+    } else if (forceRefresh) {
       console.log(`🔄 Force refresh requested, bypassing cache`);
+    } else {
+      console.log(`🔄 Not persisting this run, bypassing cache`);
     }
 
-    // Step 4: For each funder, fetch sample grants to analyze
-    const fundersWithGrants = await Promise.all(
-      funders.map(async (funder) => {
-        const { data: grants, error: grantsError } = await supabase
-          .from("grants")
-          .select("*")
-          .eq("funder_org_id", funder.org_id)
-          .order("award_date", { ascending: false })
-          .limit(10);
-
-        if (grantsError) {
-          console.error(
-            `Error fetching grants for ${funder.org_id}:`,
-            grantsError
-          );
-          return { funder, grants: [] };
-        }
-
-        return { funder, grants: grants || [] };
-      })
-    );
+    // Step 4: Check the AI budget. Once it is spent, show the charity's most
+    // recent cached result, or rule-based scores if it has none
+    if (provider.costsTokens && (await isAiBudgetExhausted())) {
+      const latest = persist
+        ? await findLatestCachedMatches(charityProfile.reg_charity_number)
+        : null;
+      // Cached results may predate the filters, so keep only funders that
+      // pass them
+      if (latest && hasMatchFilters(filters)) {
+        latest.matches = latest.matches.filter((m) =>
+          funderOrgIds.includes(m.funder.org_id)
+        );
+      }
 
-    // Step 5: Build the AI analysis prompt
-    const userPrompt = buildMatchingPrompt(charityProfile, fundersWithGrants);
-
-    // Step 6: Call Claude AI for analysis
-    console.log(`🤖 Calling Claude AI for charity ${charityProfile.charity_name}...`);
-    const claude = getClaudeClient();
-    const response = await claude.messages.create({
-      model: "claude-sonnet-4-5-20250929",
-      max_tokens: 8000,
-      temperature: 0.3,
-      system: MATCHING_SYSTEM_PROMPT,
-      messages: [
-        {
-          role: "user",
-          content: userPrompt,
-        },
-      ],
-    });
+      if (latest) {
+        onEvent?.({
+          type: "notice",
+          code: "budget_exhausted",
+          message: `AI budget exhausted, showing cached results from ${new Date(latest.createdAt).toLocaleDateString("en-GB")}`,
+          fallback: "cached",
+        });
+        return attachAskRanges(
+          charityProfile,
+          rankMatches(
+            applyMatchFeedback(latest.matches, feedback),
+            weights
+          ).slice(0, limit)
+        );
+      }
 
-    // Step 7: Parse the AI response
-    const textContent = response.content.find((block) => block.type === "text");
-    if (!textContent || textContent.type !== "text") {
-      throw new Error("No text content in AI response");
+      onEvent?.({
+        type: "notice",
+        code: "budget_exhausted",
+        message: "AI budget exhausted, showing heuristic results",
+        fallback: "heuristic",
+      });
+      provider = new OfflineProvider();
+      cacheKey = generateCacheKey(
+        charityProfile,
+        funderOrgIds,
+        provider.model,
+        prompt.version,
+        filters,
+        rateDate
+      );
     }
 
-    const matches = parseMatchingResponse(textContent.text, fundersWithGrants);
-
-    // Step 8: Sort by match score and get top 20
-    const sortedMatches = matches
-      .sort((a, b) => b.match_score - a.match_score)
-      .slice(0, 20);
+    // Step 5: Score the candidates. A request for the same charity and cache
+    // key while a run is in flight shares that run's result rather than
+    // calling the model again. A refresh joins it too, as it is already fresh
+    onEvent?.({
+      type: "progress",
+      stage: "analysing",
+      message: `Analysing ${candidates.length} funders`,
+      total: candidates.length,
+    });
 
-    // Step 9: Save to cache for future requests
-    await saveToCache(charityProfile, cacheKey, sortedMatches);
+    const matches = await joinOrStartRun(
+      persist ? cacheKey : null,
+      {
+        onJoined: () =>
+          onEvent?.({
+            type: "progress",
+            stage: "joined",
+            message:
+              "Joining a matching run already in progress for this charity",
+            total: candidates.length,
+          }),
+        onQueued: (position) =>
+          onEvent?.(
+            position > 0
+              ? {
+                  type: "progress",
+                  stage: "queued",
+                  message: `Waiting for the AI model, ${position} ${position === 1 ? "request" : "requests"} ahead`,
+                  queue_position: position,
+                  total: candidates.length,
+                }
+              : {
+                  type: "progress",
+                  stage: "analysing",
+                  message: `Analysing ${candidates.length} funders`,
+                  total: candidates.length,
+                }
+          ),
+        onScored: (match, scored) => {
+          const [visible] = applyMatchFeedback([match], feedback);
+          if (visible) {
+            onEvent?.({
+              type: "match",
+              match: {
+                ...visible,
+                match_score: computeMatchScore(
+                  visible.score_breakdown,
+                  weights
+                ),
+              },
+            });
+          }
+          onEvent?.({
+            type: "progress",
+            stage: "scoring",
+            message: `${scored} of ${candidates.length} scored`,
+            scored,
+            total: candidates.length,
+          });
+        },
+      },
+      (listener) =>
+        scoreCandidates(provider, charityProfile, candidates, {
+          prompt,
+          cacheKey,
+          funderVersions,
+          forceRefresh,
+          persist,
+          filters,
+          listener,
+        })
+    );
 
-    return sortedMatches;
+    // Step 6: Apply feedback, score with the requested weights, get the top
+    // matches and suggest an ask for each
+    return attachAskRanges(
+      charityProfile,
+      rankMatches(applyMatchFeedback(matches, feedback), weights).slice(
+        0,
+        limit
+      ),
+      { asOf }
+    );
   } catch (error) {
     console.error("Error in matchFunders:", error);
     throw error;
@@ -327,166 +571,659 @@ export async function matchFunders(
 }
 
 /**
- * Build the prompt for AI analysis
+ * Get a charity's ranked matches without calling the model: the cached
+ * result for these filters, or else the charity's most recent cached result
+ * limited to the funders that pass them
+ * @returns The matches, or null if none are cached for the charity
  */
-function buildMatchingPrompt(
-  charity: CharityProfile,
-  fundersWithGrants: FunderWithGrants[]
-): string {
-  // Extract charity characteristics
-  const activities =
-    charity.who_what_where
-      ?.filter((w) => w.classification_type === "What")
-      .map((w) => w.classification_desc)
-      .join(", ") || "Not specified";
+export async function findCachedMatches(
+  charityProfile: CharityProfile,
+  options: {
+    weights?: Partial<ScoreWeights>;
+    limit?: number;
+    filters?: MatchFilters;
+  } = {}
+): Promise<FunderMatch[] | null> {
+  const { weights, limit = 20 } = options;
+  const filters = normaliseMatchFilters(options.filters ?? {});
+  const charityNumber = charityProfile.reg_charity_number;
+
+  const { funderOrgIds, funderVersions, rateDate } = await prepareCandidates(
+    charityProfile,
+    // Only the cache key is needed, not the grants described to the model
+    { filters, sampleGrants: false }
+  );
+  const cacheKey = generateCacheKey(
+    charityProfile,
+    funderOrgIds,
+    getMatchingProvider().model,
+    getMatchingPrompt().version,
+    filters,
+    rateDate
+  );
 
-  const beneficiaries =
-    charity.who_what_where
-      ?.filter((w) => w.classification_type === "Who")
-      .map((w) => w.classification_desc)
-      .join(", ") || "Not specified";
-
-  const regions =
-    charity.CharityAoORegion?.map((r) => r.region).join(", ") ||
-    "Not specified";
-
-  const localAuthorities =
-    charity.CharityAoOLocalAuthority?.map((la) => la.local_authority).join(
-      ", "
-    ) || "Not specified";
-
-  let prompt = `# Charity Profile to Match
-
-**Charity Name:** ${charity.charity_name}
-**Registration Number:** ${charity.reg_charity_number}
-**Annual Income:** £${charity.latest_income?.toLocaleString() || "Not available"}
-**Annual Expenditure:** £${charity.latest_expenditure?.toLocaleString() || "Not available"}
-
-**Activities:** ${activities}
-**Beneficiaries:** ${beneficiaries}
-**Geographic Areas:**
-- Regions: ${regions}
-- Local Authorities: ${localAuthorities}
-
----
-
-# Funders to Analyze
-
-`;
-
-  // Add funder information
-  fundersWithGrants.forEach(({ funder, grants }, index) => {
-    const funderStats = funder.funder_stats?.aggregate;
-    const totalGrants = funderStats?.grants || 0;
-    const avgAmount = funderStats?.currencies?.GBP?.avg || 0;
-    const totalAmount = funderStats?.currencies?.GBP?.total || 0;
-
-    prompt += `## Funder ${index + 1}: ${funder.name}
-**Org ID:** ${funder.org_id}
-**Total Grants Made:** ${totalGrants}
-**Average Grant (GBP):** £${Math.round(avgAmount).toLocaleString()}
-**Total Granted (GBP):** £${Math.round(totalAmount).toLocaleString()}
-**Last Grant Date:** ${funder.last_grant_made_date || "Unknown"}
-
-**Recent Grants (sample):**
-${grants
-  .slice(0, 5)
-  .map(
-    (grant, i) => `${i + 1}. ${grant.title || "Untitled"} - £${grant.amount_awarded?.toLocaleString() || "0"} (${grant.award_date})
-   Recipient: ${grant.recipient_org_id || "Unknown"}
-   ${grant.description ? `Description: ${grant.description.substring(0, 200)}...` : ""}`
-  )
-  .join("\n")}
-
----
-
-`;
+  const cacheResult = await checkCache(charityNumber, cacheKey, funderVersions);
+  let matches = cacheResult.hit ? cacheResult.matches : undefined;
+
+  if (!matches) {
+    const latest = await findLatestCachedMatches(charityNumber);
+    matches =
+      latest && hasMatchFilters(filters)
+        ? latest.matches.filter((m) => funderOrgIds.includes(m.funder.org_id))
+        : latest?.matches;
+  }
+  if (!matches) {
+    return null;
+  }
+
+  const feedback = await loadFeedback(charityNumber);
+  return rankMatches(applyMatchFeedback(matches, feedback), weights).slice(
+    0,
+    limit
+  );
+}
+
+/**
+ * Retrieve grants similar to the charity's mission, then pre-score every
+ * funder that passes the filters and keep the strongest candidates, with
+ * what the cache key is made from
+ */
+async function prepareCandidates(
+  charityProfile: CharityProfile,
+  options: { asOf?: string; filters: MatchFilters; sampleGrants?: boolean }
+): Promise<{
+  retrieval: RetrievalResult;
+  candidates: FunderCandidate[];
+  funderOrgIds: string[];
+  funderVersions: Record<string, string>;
+  rateDate: string | null;
+}> {
+  const { asOf, filters, sampleGrants } = options;
+
+  const retrieval = await retrieveRelevantGrants(charityProfile, { asOf });
+  const candidates = await prescoreFunders(charityProfile, {
+    missionScores: retrieval.funderScores,
+    asOf,
+    filters,
+    sampleGrants,
   });
 
-  prompt += `
-# Task
-
-Analyze each funder above and score them for this charity. Return your response as a JSON array with this structure:
-
-\`\`\`json
-[
-  {
-    "funder_org_id": "GB-CHC-123456",
-    "match_score": 85,
-    "score_breakdown": {
-      "mission_alignment": 90,
-      "geographic_fit": 85,
-      "size_compatibility": 80,
-      "activity_level": 95,
-      "historical_precedent": 75
-    },
-    "reasoning": "This funder has a strong track record of supporting [specific activities] in [specific regions]. Their average grant size of £X aligns well with this charity's income level. Recent grants to similar organizations include...",
-    "similar_charities_funded": [
-      {
-        "charity_name": "Example Charity",
-        "grant_amount": 50000,
-        "award_date": "2023-06-15",
-        "grant_purpose": "Core support for youth services"
+  if (candidates.length === 0) {
+    throw new Error(
+      hasMatchFilters(filters)
+        ? "No funders match the chosen filters"
+        : "No funders found in database"
+    );
+  }
+
+  return {
+    retrieval,
+    candidates,
+    funderOrgIds: candidates.map((c) => c.funder.org_id),
+    funderVersions: Object.fromEntries(
+      candidates.map((c) => [c.funder.org_id, c.data_version])
+    ),
+    rateDate: await getExchangeRateDate(),
+  };
+}
+
+/**
+ * Score candidates in batches with bounded concurrency, verify the cited
+ * similar charities, and save the result to cache and run history
+ * Progress goes to `listener`, which may stand for several requests
+ */
+async function scoreCandidates(
+  provider: MatchingProvider,
+  charityProfile: CharityProfile,
+  candidates: FunderCandidate[],
+  options: {
+    prompt: MatchingPrompt;
+    cacheKey: string;
+    funderVersions: Record<string, string>;
+    forceRefresh: boolean;
+    persist: boolean;
+    filters: MatchFilters;
+    listener: RunListener;
+  }
+): Promise<FunderMatch[]> {
+  const {
+    prompt,
+    cacheKey,
+    funderVersions,
+    forceRefresh,
+    persist,
+    filters,
+    listener,
+  } = options;
+
+  // Split candidates into batches, one model call each
+  const batches = createBatches(candidates, MATCH_BATCH_SIZE);
+  console.log(
+    `🤖 Calling ${provider.name} provider for charity ${charityProfile.charity_name} (${candidates.length} funders, ${batches.length} batches)...`
+  );
+
+  // Report the place of this run's first batch still waiting for a model
+  // slot, or 0 once none are waiting
+  const queuePositions = new Map<number, number>();
+  const reportQueue = () =>
+    listener.onQueued(
+      queuePositions.size ? Math.min(...queuePositions.values()) : 0
+    );
+
+  let scored = 0;
+  const batchResults = await mapWithConcurrency(
+    batches,
+    MATCH_BATCH_CONCURRENCY,
+    async (batch, index) => {
+      try {
+        return await requestMatches(provider, charityProfile, batch, {
+          prompt,
+          cacheMiss: !forceRefresh,
+          onMatch: (match) => listener.onScored(match, ++scored),
+          onQueued: (position) => {
+            queuePositions.set(index, position);
+            reportQueue();
+          },
+          onStarted: () => {
+            if (queuePositions.delete(index)) reportQueue();
+          },
+        });
+      } catch (error) {
+        // One failed batch shouldn't lose the others
+        console.error(`Batch ${index + 1}/${batches.length} failed:`, error);
+        return null;
       }
-    ]
+    }
+  );
+
+  if (batchResults.every((result) => result === null)) {
+    throw new Error("Failed to parse AI matching response");
   }
-]
-\`\`\`
 
-Focus on the top 15-20 most relevant funders. Be specific and evidence-based in your reasoning.`;
+  // Check the cited similar charities against real grants
+  const matches = await verifySimilarCharities(mergeBatchMatches(batchResults));
 
-  return prompt;
+  // Save every match to cache and run history, scored with the default
+  // weights, so any weighting can be re-ranked from it later
+  if (persist) {
+    const ranked = rankMatches(matches);
+    const lastSyncAt = await getLastSyncAt();
+    await saveToCache(
+      charityProfile,
+      cacheKey,
+      ranked,
+      funderVersions,
+      lastSyncAt
+    );
+    await recordMatchRun({
+      charityProfile,
+      cacheKey,
+      provider: provider.name,
+      model: provider.model,
+      promptVersion: prompt.version,
+      candidates,
+      matches: ranked,
+      lastSyncAt,
+      filters,
+    });
+  }
+
+  return matches;
 }
 
 /**
- * Parse the AI response into structured FunderMatch objects
+ * Run `start` for a key, or wait for the run already in flight for it
+ * Every request waiting on a run hears its progress through its listener
+ * Runs are shared within this server instance only. A null key never shares
  */
-function parseMatchingResponse(
-  responseText: string,
-  fundersWithGrants: FunderWithGrants[]
-): FunderMatch[] {
+async function joinOrStartRun(
+  key: string | null,
+  listener: RunListener,
+  start: (listener: RunListener) => Promise<FunderMatch[]>
+): Promise<FunderMatch[]> {
+  const existing = key ? inFlightRuns.get(key) : undefined;
+  if (existing) {
+    console.log(`🔗 Joining matching run already in flight for ${key}`);
+    existing.listeners.add(listener);
+    listener.onJoined();
+    try {
+      return await existing.promise;
+    } finally {
+      existing.listeners.delete(listener);
+    }
+  }
+
+  // A listener that throws, e.g. writing to a closed stream, mustn't break
+  // the run for every other request sharing it
+  const listeners = new Set([listener]);
+  const notify = (call: (listener: RunListener) => void) =>
+    listeners.forEach((l) => {
+      try {
+        call(l);
+      } catch (error) {
+        console.warn("⚠️ Matching run listener failed:", error);
+      }
+    });
+  const broadcast: RunListener = {
+    onJoined: () => {},
+    onQueued: (position) => notify((l) => l.onQueued(position)),
+    onScored: (match, scored) => notify((l) => l.onScored(match, scored)),
+  };
+
+  const promise = start(broadcast);
+  if (!key) return promise;
+
+  inFlightRuns.set(key, { promise, listeners });
   try {
-    // Extract JSON from markdown code blocks if present
-    const jsonMatch = responseText.match(/```json\n([\s\S]*?)\n```/);
-    const jsonText = jsonMatch ? jsonMatch[1] : responseText;
+    return await promise;
+  } finally {
+    inFlightRuns.delete(key);
+  }
+}
+
+/**
+ * Score one funder for a charity on its own, e.g. one that pre-screening
+ * left out of the candidates sent to the model
+ * Falls back to rule-based scores once the AI budget is spent
+ * @returns The match, or null if the funder didn't produce a usable one, and
+ *   the funder's pre-screen rank among all funders; null if it isn't a funder
+ */
+export async function scoreFunderForCharity(
+  charityProfile: CharityProfile,
+  funderOrgId: string,
+  options: { promptVersion?: string } = {}
+): Promise<{
+  match: FunderMatch | null;
+  prescoreRank: number;
+  prescoreTotal: number;
+} | null> {
+  const prompt = getMatchingPrompt(options.promptVersion);
+
+  const retrieval = await retrieveRelevantGrants(charityProfile);
+  // Every funder is ranked, so only this one's grants are fetched
+  const ranked = await prescoreFunders(charityProfile, {
+    missionScores: retrieval.funderScores,
+    limit: Infinity,
+    sampleGrants: false,
+  });
+  const index = ranked.findIndex((c) => c.funder.org_id === funderOrgId);
+  if (index === -1) {
+    return null;
+  }
 
-    const parsedMatches: MatchResponseItem[] = JSON.parse(jsonText);
+  const candidate = ranked[index];
+  await attachSampleGrants([candidate]);
+  await attachRelevantGrants([candidate], retrieval.grantsByFunder);
 
-    // Map the parsed data to our FunderMatch type
-    return parsedMatches.map((match) => {
-      // Find the corresponding funder
-      const funderData = fundersWithGrants.find(
-        (f) => f.funder.org_id === match.funder_org_id
+  let provider = getMatchingProvider();
+  if (provider.costsTokens && (await isAiBudgetExhausted())) {
+    provider = new OfflineProvider();
+  }
+
+  console.log(
+    `🤖 Scoring ${candidate.funder.name} alone for charity ${charityProfile.charity_name} with the ${provider.name} provider`
+  );
+  const [match] = await verifySimilarCharities(
+    await requestMatches(provider, charityProfile, [candidate], {
+      prompt,
+      cacheMiss: true,
+    })
+  );
+
+  return {
+    match: match || null,
+    prescoreRank: index + 1,
+    prescoreTotal: ranked.length,
+  };
+}
+
+/**
+ * Check the AI budget, treating a failed check as within budget so an
+ * accounting problem never blocks matching
+ */
+export async function isAiBudgetExhausted(): Promise<boolean> {
+  try {
+    const budget = await checkAiBudget();
+    if (budget.exhausted) {
+      console.warn(
+        `⚠️ ${budget.period} AI budget of $${budget.limit} exhausted ($${budget.spent.today.toFixed(2)} today, $${budget.spent.month.toFixed(2)} this month)`
       );
+    }
+    return budget.exhausted;
+  } catch (error) {
+    console.error("Failed to check AI budget:", error);
+    return false;
+  }
+}
 
-      if (!funderData) {
-        throw new Error(`Funder ${match.funder_org_id} not found`);
-      }
+/**
+ * Get the charity's most recently cached matches, whatever their key, age
+ * or funder versions
+ */
+async function findLatestCachedMatches(
+  charityNumber: number
+): Promise<{ matches: FunderMatch[]; createdAt: string } | null> {
+  const { data } = await supabase
+    .from("match_cache")
+    .select("matches, created_at")
+    .eq("charity_number", charityNumber)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data
+    ? { matches: data.matches as FunderMatch[], createdAt: data.created_at }
+    : null;
+}
 
-      return {
-        funder: {
-          org_id: funderData.funder.org_id,
-          name: funderData.funder.name,
-          is_funder: true,
-          is_recipient: funderData.funder.is_recipient || false,
-          funder_stats: funderData.funder.funder_stats,
-          recipient_stats: funderData.funder.recipient_stats,
-        } as Organisation,
-        match_score: match.match_score,
-        score_breakdown: match.score_breakdown,
-        reasoning: match.reasoning,
-        similar_charities_funded: match.similar_charities_funded || [],
-      } as FunderMatch;
-    });
+/**
+ * Get the funder's match from the charity's most recently cached results,
+ * or null if it wasn't among them
+ */
+export async function findCachedFunderMatch(
+  charityNumber: number,
+  funderOrgId: string
+): Promise<FunderMatch | null> {
+  const latest = await findLatestCachedMatches(charityNumber);
+  return latest?.matches.find((m) => m.funder.org_id === funderOrgId) || null;
+}
+
+/**
+ * Load the charity's funder feedback, carrying on without it if unavailable
+ */
+async function loadFeedback(
+  charityNumber: number
+): Promise<Map<string, MatchFeedback>> {
+  try {
+    return await getMatchFeedback(charityNumber);
   } catch (error) {
-    console.error("Error parsing AI response:", error);
-    console.error("Response text:", responseText);
-    throw new Error("Failed to parse AI matching response");
+    console.warn("⚠️ Could not load match feedback:", error);
+    return new Map();
+  }
+}
+
+/**
+ * Deal candidates into batches round-robin by pre-score rank, so every batch
+ * holds a comparable spread of strong and weak candidates and scores from
+ * separate model calls can be ranked together
+ */
+function createBatches(
+  candidates: FunderCandidate[],
+  batchSize: number
+): FunderCandidate[][] {
+  const batchCount = Math.max(1, Math.ceil(candidates.length / batchSize));
+  const batches: FunderCandidate[][] = Array.from(
+    { length: batchCount },
+    () => []
+  );
+
+  candidates.forEach((candidate, index) => {
+    batches[index % batchCount].push(candidate);
+  });
+
+  return batches;
+}
+
+/**
+ * Merge batch results into one list, keeping the first result per funder
+ * and clamping scores into range
+ */
+function mergeBatchMatches(
+  batchResults: (FunderMatch[] | null)[]
+): FunderMatch[] {
+  const merged = new Map<string, FunderMatch>();
+
+  for (const match of batchResults.flatMap((result) => result || [])) {
+    if (merged.has(match.funder.org_id)) continue;
+
+    const score_breakdown = { ...match.score_breakdown };
+    for (const factor of SCORE_FACTORS) {
+      score_breakdown[factor] = Math.max(0, Math.min(100, score_breakdown[factor]));
+    }
+    merged.set(match.funder.org_id, { ...match, score_breakdown });
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Load the retrieved grants for each candidate so the prompt can show them
+ */
+async function attachRelevantGrants(
+  candidates: FunderCandidate[],
+  grantsByFunder: Map<string, RetrievedGrant[]>
+): Promise<void> {
+  const grantIds = candidates.flatMap(
+    (c) => grantsByFunder.get(c.funder.org_id)?.map((g) => g.grant_id) || []
+  );
+  if (grantIds.length === 0) return;
+
+  // Fetch in chunks to keep the request URL short
+  const grantsById = new Map<string, Grant>();
+  for (let i = 0; i < grantIds.length; i += 100) {
+    const { data: grants, error } = await supabase
+      .from("grants")
+      .select("*")
+      .in("grant_id", grantIds.slice(i, i + 100));
+
+    if (error) {
+      console.error("Error fetching retrieved grants:", error);
+      return;
+    }
+
+    for (const grant of grants || []) {
+      grantsById.set(grant.grant_id, grant as Grant);
+    }
+  }
+
+  for (const candidate of candidates) {
+    const retrieved = grantsByFunder.get(candidate.funder.org_id) || [];
+    candidate.relevant_grants = retrieved
+      .map((g) => grantsById.get(g.grant_id))
+      .filter((g): g is Grant => Boolean(g));
+  }
+}
+
+/**
+ * Ask the matching provider for structured matches
+ * `onMatch` fires for each match as soon as it is complete. If nothing in the
+ * response is usable, re-asks once with the validation errors
+ * Calls that spend tokens wait for a global model slot; `onQueued` reports
+ * their place in the queue and `onStarted` when a slot is free
+ */
+async function requestMatches(
+  provider: MatchingProvider,
+  charityProfile: CharityProfile,
+  candidates: FunderCandidate[],
+  options: {
+    prompt: MatchingPrompt;
+    cacheMiss: boolean;
+    onMatch?: (match: FunderMatch) => void;
+    onQueued?: (position: number) => void;
+    onStarted?: () => void;
+  }
+): Promise<FunderMatch[]> {
+  const { prompt, cacheMiss, onMatch, onQueued, onStarted } = options;
+  const userPrompt = prompt.buildPrompt(charityProfile, candidates);
+  let retryErrors: string[] | undefined;
+
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    const emitted = new Set<string>();
+    const emit = (match: FunderMatch) => {
+      if (!onMatch || emitted.has(match.funder.org_id)) return;
+      emitted.add(match.funder.org_id);
+      onMatch(match);
+    };
+
+    let completeItems = 0;
+    const generate = () =>
+      provider.generateMatches({
+        system: prompt.system,
+        prompt: userPrompt,
+        charity: charityProfile,
+        candidates,
+        retryErrors,
+        cacheMiss,
+        onPartial: onMatch
+          ? (snapshot) => {
+              const items = (snapshot as { matches?: unknown[] } | null)?.matches;
+              if (!Array.isArray(items)) return;
+
+              // Every item except the last is complete
+              for (; completeItems < items.length - 1; completeItems++) {
+                const result = toFunderMatch(items[completeItems], candidates);
+                if ("match" in result) emit(result.match);
+              }
+            }
+          : undefined,
+      });
+    const payload = provider.costsTokens
+      ? await withModelSlot(async () => {
+          onStarted?.();
+          return generate();
+        }, onQueued)
+      : await generate();
+
+    const { matches, errors } = parseMatchingResponse(payload, candidates);
+    matches.forEach(emit);
+
+    if (errors.length > 0) {
+      console.warn(
+        `⚠️ Dropped or repaired invalid AI match items: ${errors.join(" | ")}`
+      );
+    }
+
+    if (matches.length > 0) {
+      return matches;
+    }
+
+    if (attempt === 2) break;
+
+    console.warn("🔁 AI matching response unusable, re-asking with validation errors");
+    retryErrors = errors;
+  }
+
+  throw new Error("Failed to parse AI matching response");
+}
+
+/**
+ * Parse the AI response payload into structured FunderMatch objects
+ * Items that fail validation, even after repair, are dropped and reported
+ * in `errors` rather than failing the whole response
+ */
+function parseMatchingResponse(
+  payload: unknown,
+  candidates: FunderCandidate[]
+): { matches: FunderMatch[]; errors: string[] } {
+  const errors: string[] = [];
+
+  const items = Array.isArray(payload)
+    ? payload
+    : (payload as { matches?: unknown } | null)?.matches;
+
+  if (!Array.isArray(items)) {
+    errors.push("matches: expected an array of funder matches");
+    return { matches: [], errors };
+  }
+
+  const matches: FunderMatch[] = [];
+  const seen = new Set<string>();
+
+  items.forEach((item, index) => {
+    const result = toFunderMatch(item, candidates);
+    if ("error" in result) {
+      errors.push(`matches.${index}: ${result.error}`);
+      return;
+    }
+
+    if (seen.has(result.match.funder.org_id)) {
+      return;
+    }
+    seen.add(result.match.funder.org_id);
+    matches.push(result.match);
+  });
+
+  return { matches, errors };
+}
+
+/**
+ * Repair and validate a single response item and resolve its funder
+ */
+function toFunderMatch(
+  item: unknown,
+  candidates: FunderCandidate[]
+): { match: FunderMatch } | { error: string } {
+  const parsed = matchResponseItemSchema.safeParse(repairMatchItem(item));
+  if (!parsed.success) {
+    return { error: formatValidationError(parsed.error) };
+  }
+
+  const match = parsed.data;
+
+  // Find the corresponding funder
+  const funderData = candidates.find(
+    (f) => f.funder.org_id === match.funder_org_id
+  );
+
+  if (!funderData) {
+    return {
+      error: `funder_org_id: "${match.funder_org_id}" is not in the funder list`,
+    };
   }
+
+  return {
+    match: {
+      funder: {
+        org_id: funderData.funder.org_id,
+        name: funderData.funder.name,
+        is_funder: true,
+        is_recipient: funderData.funder.is_recipient || false,
+        funder_stats: funderData.funder.funder_stats,
+        recipient_stats: funderData.funder.recipient_stats,
+      } as Organisation,
+      match_score: match.match_score,
+      score_breakdown: match.score_breakdown,
+      reasoning: match.reasoning,
+      evidence: resolveEvidence(match.evidence, funderData),
+      similar_charities_funded: match.similar_charities_funded,
+      seasonality: funderData.seasonality,
+    },
+  };
 }
 
 /**
- * Get detailed funder information with grant history
+ * Keep only cited grant IDs that were actually shown for this funder and
+ * attach their titles for display
+ */
+function resolveEvidence(
+  evidence: Record<keyof ScoreBreakdown, string[]>,
+  candidate: FunderCandidate
+): MatchEvidence {
+  const shownGrants = new Map(
+    [...candidate.grants, ...(candidate.relevant_grants || [])].map((g) => [
+      g.grant_id,
+      g,
+    ])
+  );
+
+  const resolved = {} as MatchEvidence;
+  for (const factor of SCORE_FACTORS) {
+    resolved[factor] = Array.from(new Set(evidence[factor]))
+      .map((grantId) => shownGrants.get(grantId))
+      .filter((grant): grant is Grant => Boolean(grant))
+      .map((grant) => ({
+        grant_id: grant.grant_id,
+        title: grant.title || "Untitled grant",
+        award_date: grant.award_date,
+      }));
+  }
+
+  return resolved;
+}
+
+/**
+ * Get detailed funder information with grant history and when in the year
+ * it makes its awards
  */
 export async function getFunderDetails(
   funderOrgId: string
@@ -495,9 +1232,15 @@ export async function getFunderDetails(
   grants: Grant[];
   stats: {
     total_grants: number;
+    // GBP equivalent across every currency with an exchange rate
     avg_amount: number;
+    currencies: Record<string, CurrencyAggregate>;
+    // Currencies left out of avg_amount for want of a rate
+    unconverted: string[];
     date_range: { earliest: string; latest: string };
   };
+  seasonality: FunderSeasonality | null;
+  exchange_rates: ExchangeRates;
 }> {
   // Fetch funder info
   const { data: funder, error: funderError } = await supabase
@@ -528,20 +1271,110 @@ export async function getFunderDetails(
   );
   const dates = validGrants.map((g) => g.award_date).sort();
 
+  // Amounts are only added up within a currency, then converted to GBP
+  const currencies = aggregateByCurrency(validGrants);
+  const exchangeRates = await getExchangeRates();
+  const inGbp = aggregateInGbp(currencies, exchangeRates);
+
   const stats = {
     total_grants: validGrants.length,
-    avg_amount:
-      validGrants.reduce((sum, g) => sum + g.amount_awarded, 0) /
-        validGrants.length || 0,
+    avg_amount: inGbp?.avg || 0,
+    currencies,
+    unconverted: inGbp?.unconverted || Object.keys(currencies),
     date_range: {
       earliest: dates[0] || "",
       latest: dates[dates.length - 1] || "",
     },
   };
 
+  const now = new Date();
+  const since = new Date(now);
+  since.setUTCFullYear(since.getUTCFullYear() - SEASONALITY_YEARS);
+  const awardDates = await fetchAwardDates(funderOrgId, since);
+
   return {
     funder: funder as Organisation,
     grants: (grants || []) as Grant[],
     stats,
+    seasonality: buildSeasonality(awardDates, now),
+    exchange_rates: exchangeRates,
   };
 }
+
+/**
+ * Fetch the dates of a funder's awards since a date, paging past the
+ * Supabase row limit
+ */
+async function fetchAwardDates(
+  funderOrgId: string,
+  since: Date
+): Promise<string[]> {
+  const dates: string[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("grants")
+      .select("award_date")
+      .eq("funder_org_id", funderOrgId)
+      .gte("award_date", since.toISOString().slice(0, 10))
+      .order("grant_id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch award dates: ${error.message}`);
+    }
+
+    dates.push(...(data || []).map((g) => g.award_date as string));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return dates;
+}
+
+/**
+ * Get a single grant made by a funder, e.g. one cited as match evidence
+ * Returns null when the grant does not exist or belongs to another funder
+ */
+export async function getFunderGrant(
+  funderOrgId: string,
+  grantId: string
+): Promise<Grant | null> {
+  const { data, error } = await supabase
+    .from("grants")
+    .select("*")
+    .eq("funder_org_id", funderOrgId)
+    .eq("grant_id", grantId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch grant: ${error.message}`);
+  }
+
+  return (data as Grant) || null;
+}
+
+/**
+ * Find funders by name or org ID, e.g. to pick one to explain
+ */
+export async function searchFunders(
+  query: string,
+  limit = 10
+): Promise<Pick<Organisation, "org_id" | "name">[]> {
+  // Characters that would break the PostgREST filter syntax
+  const term = query.replace(/[,()*%\\]/g, " ").trim();
+  if (term.length < 2) return [];
+
+  const { data, error } = await supabase
+    .from("organisations")
+    .select("org_id, name")
+    .eq("is_funder", true)
+    .or(`name.ilike.*${term}*,org_id.ilike.${term}`)
+    .order("name")
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to search funders: ${error.message}`);
+  }
+
+  return data || [];
+}
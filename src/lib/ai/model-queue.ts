@@ -0,0 +1,40 @@
+import { createLimiter } from "@/lib/concurrency";
+
+// Model calls in flight at once across all requests, unless
+// AI_MAX_CONCURRENT_CALLS says otherwise
+const DEFAULT_MAX_CONCURRENT_CALLS = 6;
+
+/**
+ * Maximum concurrent model calls, from AI_MAX_CONCURRENT_CALLS
+ */
+export function getMaxConcurrentModelCalls(): number {
+  const configured = Number(process.env.AI_MAX_CONCURRENT_CALLS);
+  return Number.isInteger(configured) && configured > 0
+    ? configured
+    : DEFAULT_MAX_CONCURRENT_CALLS;
+}
+
+// Shared by every request this server instance handles
+const modelCalls = createLimiter(getMaxConcurrentModelCalls());
+
+/**
+ * Make a model call once one of the global slots is free
+ * @param onQueued - Called with the call's place in the queue while it waits
+ */
+export function withModelSlot<T>(
+  call: () => Promise<T>,
+  onQueued?: (position: number) => void
+): Promise<T> {
+  return modelCalls.run(call, onQueued);
+}
+
+/**
+ * Model calls running now and waiting for a slot
+ */
+export function getModelQueueStatus(): {
+  active: number;
+  queued: number;
+  limit: number;
+} {
+  return modelCalls.status();
+}
@@ -0,0 +1,102 @@
+import type { FunderCandidate } from "./prescoring";
+import type { MatchGenerationRequest, MatchingProvider } from "./provider";
+import type { MatchResponseItem } from "./match-schema";
+
+/**
+ * Deterministic matching provider that needs no API key or network
+ * Scores are derived from the same pre-screen signals and grants the prompt
+ * is built from, so results are stable between runs
+ */
+export class OfflineProvider implements MatchingProvider {
+  readonly name = "offline";
+  readonly model = "offline-rules-v1";
+  readonly costsTokens = false;
+
+  async generateMatches(request: MatchGenerationRequest): Promise<unknown> {
+    const matches = request.candidates
+      .map(scoreCandidate)
+      .sort(
+        (a, b) =>
+          b.match_score - a.match_score ||
+          a.funder_org_id.localeCompare(b.funder_org_id)
+      );
+
+    // Mimic a streamed response so progressive rendering works offline too
+    if (request.onPartial) {
+      for (let i = 1; i <= matches.length; i++) {
+        request.onPartial({ matches: matches.slice(0, i) });
+      }
+    }
+
+    return { matches };
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+}
+
+/**
+ * Turn a candidate's pre-screen signals into a full match item
+ */
+function scoreCandidate(candidate: FunderCandidate): MatchResponseItem {
+  const { funder, grants, relevant_grants = [], prescore_breakdown } = candidate;
+
+  // Precedent grows with each grant similar to the charity's work
+  const historicalPrecedent = relevant_grants.length
+    ? Math.min(100, 40 + 15 * relevant_grants.length)
+    : Math.round(prescore_breakdown.cause_overlap * 0.6);
+
+  const score_breakdown = {
+    mission_alignment: prescore_breakdown.cause_overlap,
+    geographic_fit: prescore_breakdown.geographic_fit,
+    size_compatibility: prescore_breakdown.size_compatibility,
+    activity_level: prescore_breakdown.activity_level,
+    historical_precedent: historicalPrecedent,
+  };
+
+  const values = Object.values(score_breakdown);
+  const match_score = Math.round(
+    values.reduce((sum, v) => sum + v, 0) / values.length
+  );
+
+  const examples = (relevant_grants.length ? relevant_grants : grants).slice(0, 3);
+  const exampleIds = examples.map((g) => g.grant_id);
+  const located = grants.filter((g) => g.beneficiary_location?.length);
+
+  const strengths = Object.entries(score_breakdown)
+    .filter(([, score]) => score >= 70)
+    .map(([factor]) => factor.replace(/_/g, " "));
+
+  const reasoning = [
+    `Rule-based estimate for ${funder.name}.`,
+    relevant_grants.length
+      ? `${relevant_grants.length} of its grants closely resemble this charity's work.`
+      : `Its grant descriptions overlap with this charity's causes at ${prescore_breakdown.cause_overlap}/100.`,
+    strengths.length
+      ? `Strongest factors: ${strengths.join(", ")}.`
+      : "No factor scores strongly.",
+    `Geographic fit ${score_breakdown.geographic_fit}/100, size compatibility ${score_breakdown.size_compatibility}/100, activity ${score_breakdown.activity_level}/100.`,
+  ].join(" ");
+
+  return {
+    funder_org_id: funder.org_id,
+    match_score,
+    score_breakdown,
+    reasoning,
+    evidence: {
+      mission_alignment: relevant_grants.slice(0, 3).map((g) => g.grant_id),
+      geographic_fit: located.slice(0, 2).map((g) => g.grant_id),
+      size_compatibility: exampleIds.slice(0, 2),
+      // Sample grants are ordered most recent first
+      activity_level: grants.slice(0, 1).map((g) => g.grant_id),
+      historical_precedent: relevant_grants.length ? exampleIds : [],
+    },
+    similar_charities_funded: examples.map((grant) => ({
+      charity_name: grant.recipient_org_id || "Unknown recipient",
+      grant_amount: Number(grant.amount_awarded) || 0,
+      award_date: grant.award_date || "",
+      grant_purpose: grant.title || "",
+    })),
+  };
+}
@@ -0,0 +1,689 @@
+import { supabase } from "@/lib/supabase";
+import {
+  extractCauseAreas,
+  extractGeographicFocus,
+} from "@/lib/charity-commission";
+import { aggregateByCurrency, aggregateInGbp, toGbp } from "@/lib/currency";
+import { getExchangeRates } from "@/lib/exchange-rates";
+import {
+  buildSeasonality,
+  UPCOMING_MONTHS,
+  upcomingAwardShare,
+} from "@/lib/seasonality";
+import { computeFunderVersion, findLatestGrant } from "./funder-version";
+import type {
+  CharityProfile,
+  CurrencyAggregate,
+  ExchangeRates,
+  FunderSeasonality,
+  Grant,
+  MatchFilters,
+  Organisation,
+} from "@/types";
+
+// Number of funders passed on to the AI stage, which scores them in batches
+export const PRESCORE_CANDIDATE_LIMIT = 200;
+
+// Supabase returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+// How long the current grants are reused before the table is read again;
+// a sync clears them straight away
+const GRANTS_CACHE_MS = 10 * 60 * 1000;
+
+// Number of recent grants kept per candidate for the prompt
+const SAMPLE_GRANTS_PER_FUNDER = 10;
+
+// Relative weight of each first-stage signal
+const PRESCORE_WEIGHTS = {
+  cause_overlap: 0.35,
+  geographic_fit: 0.25,
+  size_compatibility: 0.2,
+  activity_level: 0.2,
+};
+
+// Words that carry no meaning when comparing causes
+const STOPWORDS = new Set([
+  "and",
+  "the",
+  "for",
+  "with",
+  "other",
+  "general",
+  "charitable",
+  "purposes",
+  "people",
+  "organisations",
+  "provides",
+  "services",
+  "throughout",
+  "prevention",
+  "relief",
+  "advancement",
+]);
+
+// Beneficiary locations that indicate national rather than local giving
+const NATIONAL_LOCATIONS = [
+  "united kingdom",
+  "uk",
+  "great britain",
+  "england",
+  "gb",
+];
+
+export interface PrescoreBreakdown {
+  cause_overlap: number;
+  geographic_fit: number;
+  size_compatibility: number;
+  activity_level: number;
+}
+
+export interface FunderCandidate {
+  funder: Organisation;
+  grants: Grant[];
+  // Grants most similar to the charity's mission, when a retrieval index exists
+  relevant_grants?: Grant[];
+  prescore: number;
+  prescore_breakdown: PrescoreBreakdown;
+  // The funder's grant sizes across all its currencies in GBP, null when
+  // none could be converted
+  gbp_stats: CurrencyAggregate | null;
+  // When the funder makes its awards, from all its grants
+  seasonality: FunderSeasonality | null;
+  // Share of its awards usually made in the coming months, 0-1
+  upcoming_award_share: number | null;
+  // Hash of the funder's stats and grants, recorded with cached results
+  data_version: string;
+}
+
+// A grant as summarised by the prescore_funder_grants database function
+interface GrantSummary {
+  grant_id: string;
+  amount_awarded: number;
+  currency: string | null;
+  award_date: string;
+  // Lowercased title, start of the description, classification and
+  // programme titles
+  text: string;
+  // Lowercased beneficiary location names
+  locations: string[];
+}
+
+// Grants by funder for the latest cut-off date read (null for the current
+// grants), shared by match requests and backtests between syncs
+let cachedGrants: {
+  cutoff: string | null;
+  grantsByFunder: Map<string, GrantSummary[]>;
+  loadedAt: number;
+} | null = null;
+
+export interface CharitySignals {
+  keywords: string[];
+  locationTerms: string[];
+  income: number;
+}
+
+/**
+ * Score every funder in the database against a charity using deterministic
+ * signals and return the strongest candidates for the AI stage
+ *
+ * @param charityProfile - The charity to score funders for
+ * @param options - Candidate limit, optional 0-100 mission relevance per
+ *   funder, asOf to score funders on the grants made before that date,
+ *   filters that funders must pass to be scored at all, and sampleGrants:
+ *   false to skip fetching the recent grants described to the model
+ */
+export async function prescoreFunders(
+  charityProfile: CharityProfile,
+  options: {
+    limit?: number;
+    missionScores?: Map<string, number>;
+    asOf?: string;
+    filters?: MatchFilters;
+    sampleGrants?: boolean;
+  } = {}
+): Promise<FunderCandidate[]> {
+  const {
+    limit = PRESCORE_CANDIDATE_LIMIT,
+    missionScores,
+    asOf,
+    filters,
+    sampleGrants = true,
+  } = options;
+
+  const funders = await fetchAllFunders();
+  if (funders.length === 0) {
+    return [];
+  }
+
+  const grantsByFunder = await getGrantsByFunder(asOf ?? null);
+  const rates = await getExchangeRates();
+  const signals = buildCharitySignals(charityProfile);
+  const now = asOf ? new Date(asOf) : new Date();
+  const failedFilter = filters
+    ? buildFunderFilter(filters, rates, now)
+    : () => null;
+
+  const candidates = funders.flatMap((current) => {
+    const grants = grantsByFunder.get(current.org_id) || [];
+    const funder = asOf ? funderAsOf(current, grants) : current;
+    if (failedFilter(funder, grants)) return [];
+
+    const seasonality = buildSeasonality(
+      grants.map((g) => g.award_date),
+      now
+    );
+    const upcoming_award_share = seasonality
+      ? upcomingAwardShare(seasonality, now)
+      : null;
+    const prescore_breakdown: PrescoreBreakdown = {
+      // Retrieval catches related wording that keyword overlap misses
+      cause_overlap: Math.max(
+        scoreCauseOverlap(signals, grants),
+        missionScores?.get(funder.org_id) || 0
+      ),
+      geographic_fit: scoreGeographicFit(signals, grants),
+      size_compatibility: scoreSizeCompatibility(
+        signals,
+        funder,
+        grants,
+        rates
+      ),
+      activity_level: scoreActivityLevel(
+        funder,
+        grants,
+        now,
+        upcoming_award_share
+      ),
+    };
+
+    const prescore = Math.round(
+      Object.entries(PRESCORE_WEIGHTS).reduce(
+        (sum, [factor, weight]) =>
+          sum + prescore_breakdown[factor as keyof PrescoreBreakdown] * weight,
+        0
+      )
+    );
+
+    const data_version = computeFunderVersion(
+      funder,
+      grants.length,
+      findLatestGrant(grants)
+    );
+
+    return [
+      {
+        funder,
+        grants,
+        prescore,
+        prescore_breakdown,
+        gbp_stats: aggregateInGbp(
+          funder.funder_stats?.aggregate?.currencies,
+          rates
+        ),
+        seasonality,
+        upcoming_award_share,
+        data_version,
+      },
+    ];
+  });
+
+  const shortlist: FunderCandidate[] = candidates
+    .sort((a, b) => b.prescore - a.prescore)
+    .slice(0, limit)
+    .map((candidate) => ({ ...candidate, grants: [] }));
+
+  if (sampleGrants) {
+    await attachSampleGrants(shortlist, asOf);
+  }
+  return shortlist;
+}
+
+/**
+ * Give each candidate its most recent grants, to describe to the model
+ * Given a date, only grants awarded before it are used
+ */
+export async function attachSampleGrants(
+  candidates: FunderCandidate[],
+  asOf?: string
+): Promise<void> {
+  const byFunder = new Map(candidates.map((c) => [c.funder.org_id, c]));
+
+  // Chunked to keep each call's result within the Supabase row limit
+  const orgIds = Array.from(byFunder.keys());
+  const chunkSize = Math.floor(PAGE_SIZE / SAMPLE_GRANTS_PER_FUNDER);
+  for (let i = 0; i < orgIds.length; i += chunkSize) {
+    const { data, error } = await supabase
+      .rpc("recent_funder_grants", {
+        funder_ids: orgIds.slice(i, i + chunkSize),
+        per_funder: SAMPLE_GRANTS_PER_FUNDER,
+        cutoff: asOf ?? null,
+      })
+      .select(
+        "grant_id, title, description, amount_awarded, currency, award_date, funder_org_id, recipient_org_id, grant_programme, classifications, beneficiary_location"
+      );
+
+    if (error) {
+      throw new Error(`Failed to fetch recent grants: ${error.message}`);
+    }
+
+    for (const grant of (data || []) as Grant[]) {
+      byFunder.get(grant.funder_org_id)?.grants.push(grant);
+    }
+  }
+
+  for (const candidate of candidates) {
+    candidate.grants.sort(
+      (a, b) =>
+        (b.award_date || "").localeCompare(a.award_date || "") ||
+        b.grant_id.localeCompare(a.grant_id)
+    );
+  }
+}
+
+/**
+ * Fetch every funder organisation, paging past the Supabase row limit
+ */
+async function fetchAllFunders(): Promise<Organisation[]> {
+  const funders: Organisation[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("organisations")
+      .select("*")
+      .eq("is_funder", true)
+      .order("org_id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch funders: ${error.message}`);
+    }
+
+    funders.push(...((data || []) as Organisation[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return funders;
+}
+
+/**
+ * Rebuild a funder's stats from the grants it had made by a cut-off date, so
+ * nothing awarded after it reaches scoring or the prompt
+ */
+function funderAsOf(funder: Organisation, grants: GrantSummary[]): Organisation {
+  const currencies = aggregateByCurrency(grants);
+
+  return {
+    ...funder,
+    funder_stats: { aggregate: { grants: grants.length, currencies } },
+    last_grant_made_date: findLatestGrant(grants)?.award_date,
+  };
+}
+
+/**
+ * Find the first filter a funder fails, checked as pre-scoring checks it
+ * against its current grants
+ * @returns The funder and the filter it fails, which is null if it passes
+ *   them all; null if the org ID isn't a funder
+ */
+export async function findFailedFilter(
+  funderOrgId: string,
+  filters: MatchFilters
+): Promise<{
+  funder: Organisation;
+  filter: keyof MatchFilters | null;
+} | null> {
+  const { data, error } = await supabase
+    .from("organisations")
+    .select("*")
+    .eq("org_id", funderOrgId)
+    .eq("is_funder", true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch funder: ${error.message}`);
+  }
+  if (!data) {
+    return null;
+  }
+
+  const funder = data as Organisation;
+  const grants = (await getGrantsByFunder(null)).get(funderOrgId) || [];
+  const rates = await getExchangeRates();
+
+  return {
+    funder,
+    filter: buildFunderFilter(filters, rates, new Date())(funder, grants),
+  };
+}
+
+/**
+ * Build a check that names the first filter a funder fails, or null if it
+ * passes every filter that is set
+ * A funder with no grant data can't show that it meets a region, size or
+ * recency filter, so it fails them
+ */
+function buildFunderFilter(
+  filters: MatchFilters,
+  rates: ExchangeRates,
+  now: Date
+): (funder: Organisation, grants: GrantSummary[]) => keyof MatchFilters | null {
+  const excluded = new Set(filters.exclude_org_ids);
+  const regions = (filters.regions || []).map((r) => r.toLowerCase());
+  const activeSince =
+    filters.active_within_months !== undefined
+      ? new Date(now).setMonth(now.getMonth() - filters.active_within_months)
+      : null;
+
+  return (funder, grants) => {
+    if (excluded.has(funder.org_id)) return "exclude_org_ids";
+
+    if (activeSince !== null) {
+      const latest = findLatestGrant(grants)?.award_date;
+      const lastGrant = [latest, funder.last_grant_made_date]
+        .filter((d): d is string => Boolean(d))
+        .map((d) => new Date(d).getTime())
+        .filter((t) => !Number.isNaN(t));
+      if (
+        !lastGrant.length ||
+        lastGrant.reduce((a, b) => Math.max(a, b)) < activeSince
+      ) {
+        return "active_within_months";
+      }
+    }
+
+    if (filters.min_grant !== undefined || filters.max_grant !== undefined) {
+      const typicalAward = typicalAwardInGbp(funder, grants, rates);
+      if (!typicalAward) {
+        return filters.min_grant !== undefined ? "min_grant" : "max_grant";
+      }
+      if (typicalAward < (filters.min_grant ?? 0)) return "min_grant";
+      if (typicalAward > (filters.max_grant ?? Infinity)) return "max_grant";
+    }
+
+    // A UK-wide grant doesn't show that the funder gives in a given region
+    if (regions.length) {
+      const fundsInRegion = grants.some((grant) =>
+        grant.locations.some((name) =>
+          regions.some((region) => name.includes(region))
+        )
+      );
+      if (!fundsInRegion) return "regions";
+    }
+
+    return null;
+  };
+}
+
+/**
+ * Grants by funder made before a cut-off date, or all current grants for
+ * null. The last cut-off read is kept for GRANTS_CACHE_MS, so repeated match
+ * requests, and backtests on the same date, don't read the grants again
+ */
+async function getGrantsByFunder(
+  cutoff: string | null
+): Promise<Map<string, GrantSummary[]>> {
+  if (
+    cachedGrants &&
+    cachedGrants.cutoff === cutoff &&
+    Date.now() - cachedGrants.loadedAt < GRANTS_CACHE_MS
+  ) {
+    return cachedGrants.grantsByFunder;
+  }
+
+  const grantsByFunder = await fetchGrantsByFunder(cutoff);
+  cachedGrants = { cutoff, grantsByFunder, loadedAt: Date.now() };
+  return grantsByFunder;
+}
+
+/**
+ * Forget the cached grants, e.g. after a sync has changed them
+ */
+export function clearPrescoringCache(): void {
+  cachedGrants = null;
+}
+
+/**
+ * Fetch the grant summaries used for pre-scoring, one row per funder
+ * Given a date, only grants awarded before it are summarised
+ */
+async function fetchGrantsByFunder(
+  before: string | null
+): Promise<Map<string, GrantSummary[]>> {
+  const grantsByFunder = new Map<string, GrantSummary[]>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc("prescore_funder_grants", { cutoff: before })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch grants: ${error.message}`);
+    }
+
+    const rows = (data || []) as {
+      funder_org_id: string;
+      summaries: GrantSummary[];
+    }[];
+    for (const row of rows) {
+      grantsByFunder.set(row.funder_org_id, row.summaries);
+    }
+
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  return grantsByFunder;
+}
+
+/**
+ * Derive the comparison terms used by every scorer from the charity profile
+ */
+export function buildCharitySignals(charity: CharityProfile): CharitySignals {
+  const keywords = new Set<string>();
+  const descriptions = [
+    ...(charity.who_what_where || [])
+      .filter((w) => w.classification_type !== "How")
+      .map((w) => w.classification_desc),
+    ...extractCauseAreas(charity.who_what_where),
+  ];
+  for (const description of descriptions) {
+    for (const token of tokenize(description)) {
+      keywords.add(token);
+    }
+  }
+
+  const locationTerms = new Set<string>();
+  for (const area of charity.CharityAoOLocalAuthority || []) {
+    locationTerms.add(area.local_authority.toLowerCase());
+    if (area.metropolitan_county) {
+      locationTerms.add(area.metropolitan_county.toLowerCase());
+    }
+  }
+  for (const area of charity.CharityAoORegion || []) {
+    locationTerms.add(area.region.toLowerCase());
+  }
+  for (const region of extractGeographicFocus(charity)) {
+    // "England - North West" -> "north west"
+    locationTerms.add(region.replace(/^England - /, "").toLowerCase());
+  }
+  locationTerms.delete("uk-wide");
+
+  return {
+    keywords: Array.from(keywords),
+    locationTerms: Array.from(locationTerms),
+    income: charity.latest_income || 0,
+  };
+}
+
+/**
+ * Split free text into lowercase tokens suitable for keyword overlap
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter((token) => token.length >= 4 && !STOPWORDS.has(token));
+}
+
+/**
+ * Share of the funder's grants whose text mentions the charity's causes
+ */
+function scoreCauseOverlap(
+  signals: CharitySignals,
+  grants: GrantSummary[]
+): number {
+  if (grants.length === 0) return 30;
+  if (signals.keywords.length === 0) return 50;
+
+  const matching = grants.filter((grant) =>
+    textMentionsCauses(signals, grant.text)
+  ).length;
+
+  // Square root rewards a moderate overlap without requiring a perfect one
+  return Math.round(100 * Math.sqrt(matching / grants.length));
+}
+
+/**
+ * Whether a grant's title, description, classifications or programmes
+ * mention any of the charity's causes
+ */
+export function mentionsCharityCauses(
+  signals: CharitySignals,
+  grant: Pick<
+    Grant,
+    "title" | "description" | "classifications" | "grant_programme"
+  >
+): boolean {
+  const text = [
+    grant.title,
+    grant.description,
+    ...(grant.classifications || []).map((c) => c.title),
+    ...(grant.grant_programme || []).map((p) => p.title),
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+
+  return textMentionsCauses(signals, text);
+}
+
+/**
+ * Whether lowercased grant text mentions any of the charity's causes
+ */
+function textMentionsCauses(signals: CharitySignals, text: string): boolean {
+  return signals.keywords.some((keyword) => text.includes(keyword));
+}
+
+/**
+ * Share of the funder's grants that benefit the charity's area of operation
+ */
+function scoreGeographicFit(
+  signals: CharitySignals,
+  grants: GrantSummary[]
+): number {
+  const located = grants.filter((grant) => grant.locations.length);
+  if (located.length === 0 || signals.locationTerms.length === 0) return 50;
+
+  let local = 0;
+  let national = 0;
+  for (const grant of located) {
+    const names = grant.locations;
+
+    const isLocal = names.some((name) =>
+      signals.locationTerms.some(
+        (term) => name && (name.includes(term) || term.includes(name))
+      )
+    );
+    if (isLocal) {
+      local++;
+    } else if (names.some((name) => NATIONAL_LOCATIONS.includes(name))) {
+      national++;
+    }
+  }
+
+  return Math.round(Math.min(100, (100 * (local + 0.5 * national)) / located.length));
+}
+
+/**
+ * Compare the funder's typical award with the charity's annual income, in
+ * GBP equivalents
+ */
+function scoreSizeCompatibility(
+  signals: CharitySignals,
+  funder: Organisation,
+  grants: GrantSummary[],
+  rates: ExchangeRates
+): number {
+  if (!signals.income) return 50;
+
+  const typicalAward = typicalAwardInGbp(funder, grants, rates);
+  if (!typicalAward) return 50;
+
+  // Awards between 1% and 30% of income are realistic for the charity to win and absorb
+  const ratio = typicalAward / signals.income;
+  if (ratio > 0.3) return Math.round(Math.max(5, (100 * 0.3) / ratio));
+  if (ratio < 0.01) return Math.round(Math.max(20, (100 * ratio) / 0.01));
+  return 100;
+}
+
+/**
+ * The funder's median award in GBP, or its average award when none of its
+ * grants are loaded. 0 when neither is known
+ */
+function typicalAwardInGbp(
+  funder: Organisation,
+  grants: GrantSummary[],
+  rates: ExchangeRates
+): number {
+  const amounts = grants
+    .filter((g) => g.amount_awarded > 0)
+    .map((g) => toGbp(Number(g.amount_awarded), g.currency, rates))
+    .filter((amount): amount is number => amount !== null)
+    .sort((a, b) => a - b);
+
+  return amounts.length
+    ? amounts[Math.floor(amounts.length / 2)]
+    : aggregateInGbp(funder.funder_stats?.aggregate?.currencies, rates)?.avg ||
+        0;
+}
+
+/**
+ * Combine how recently and how often the funder has made grants, and
+ * whether it usually makes awards in the coming months
+ */
+function scoreActivityLevel(
+  funder: Organisation,
+  grants: GrantSummary[],
+  now: Date,
+  upcomingShare: number | null
+): number {
+  const dates = grants
+    .map((g) => g.award_date)
+    .filter(Boolean)
+    .concat(funder.last_grant_made_date ? [funder.last_grant_made_date] : [])
+    .map((d) => new Date(d).getTime())
+    .filter((t) => !Number.isNaN(t));
+  if (dates.length === 0) return 0;
+
+  const monthMs = 1000 * 60 * 60 * 24 * 30;
+  // A reduce, as spreading a large funder's dates can overflow the stack
+  const latest = dates.reduce((a, b) => Math.max(a, b));
+  const monthsSinceLast = (now.getTime() - latest) / monthMs;
+  // Full marks within 6 months, nothing after 3 years
+  const recency = Math.max(0, Math.min(100, 100 - ((monthsSinceLast - 6) / 30) * 100));
+
+  const recentCount = dates.filter(
+    (t) => now.getTime() - t <= 24 * monthMs
+  ).length;
+  const volume = Math.min(100, 25 * Math.log2(1 + recentCount));
+
+  if (upcomingShare === null) {
+    return Math.round(0.6 * recency + 0.4 * volume);
+  }
+
+  // An even spread through the year scores 50, double that share 100
+  const evenShare = UPCOMING_MONTHS / 12;
+  const seasonal = Math.min(100, (50 * upcomingShare) / evenShare);
+
+  return Math.round(0.5 * recency + 0.3 * volume + 0.2 * seasonal);
+}
@@ -0,0 +1,275 @@
+import { formatAmount } from "@/lib/currency";
+import { formatMonths, UPCOMING_MONTHS } from "@/lib/seasonality";
+import type { CharityProfile } from "@/types";
+import type { FunderCandidate } from "./prescoring";
+
+/**
+ * A named, immutable version of the matching prompt
+ * Never edit a version once results have been recorded with it; add a new
+ * version and make it the default instead, so runs and evaluations stay
+ * comparable
+ */
+export interface MatchingPrompt {
+  version: string;
+  description: string;
+  system: string;
+  buildPrompt(charity: CharityProfile, candidates: FunderCandidate[]): string;
+}
+
+// The weights are written out, not taken from the defaults, so changing the
+// defaults can't change this version
+const V1_SYSTEM_PROMPT = `You are an expert grant advisor for UK charities. Your role is to analyze charity profiles and match them with the most suitable funders based on historical grant data.
+
+When analyzing matches, consider these key factors:
+
+1. **Mission Alignment** (0-100): How well does the funder's historical giving align with the charity's charitable purposes, activities, and beneficiaries?
+2. **Geographic Fit** (0-100): Does the funder support organizations in the charity's geographic area?
+3. **Size Compatibility** (0-100): Is the charity's income level within the typical range of organizations this funder supports?
+4. **Activity Level** (0-100): How recently and frequently has this funder made grants? Are they actively giving?
+5. **Historical Precedent** (0-100): Has the funder supported similar charities in the past?
+
+Each funder has already passed a deterministic pre-screen. Its pre-screen signals are computed from the full grants database and are useful evidence, but base your scores on your own reading of the grants.
+
+For each funder, provide:
+- Overall match score (weighted average of the 5 factors: mission alignment 30%, geographic fit 20%, size compatibility 15%, activity level 15%, historical precedent 20%; the server recalculates this from your breakdown, so focus on scoring each factor accurately)
+- Score breakdown for each factor
+- Clear reasoning explaining why this funder is a good match
+- Specific examples of similar charities they've funded, taken only from the grants listed and with the recipient written exactly as shown (examples are checked against grant records and unmatched ones are flagged as unverified)
+
+Be specific, evidence-based, and actionable in your recommendations.`;
+
+// v2 asks for activity in the coming months, using each funder's seasonality
+const V2_SYSTEM_PROMPT = V1_SYSTEM_PROMPT.replace(
+  "How recently and frequently has this funder made grants? Are they actively giving?",
+  "How recently and frequently has this funder made grants? Are they actively giving, and do they usually make awards in the coming months?"
+);
+
+// v3 tells the model how grant sizes in other currencies are shown
+const V3_SYSTEM_PROMPT = V2_SYSTEM_PROMPT.replace(
+  "Is the charity's income level within the typical range of organizations this funder supports?",
+  "Is the charity's income level within the typical range of organizations this funder supports? Amounts are labelled with their currency; compare sizes using the GBP equivalents given."
+);
+
+const V1_TASK = `# Task
+
+Analyze each funder above and score them for this charity. Record your analysis by calling the \`record_funder_matches\` tool. Each entry in \`matches\` should have this structure:
+
+\`\`\`json
+{
+  "funder_org_id": "GB-CHC-123456",
+  "match_score": 85,
+  "score_breakdown": {
+    "mission_alignment": 90,
+    "geographic_fit": 85,
+    "size_compatibility": 80,
+    "activity_level": 95,
+    "historical_precedent": 75
+  },
+  "reasoning": "This funder has a strong track record of supporting [specific activities] in [specific regions]. Their average grant size of £X aligns well with this charity's income level. Recent grants to similar organizations include...",
+  "evidence": {
+    "mission_alignment": ["360G-example-001", "360G-example-002"],
+    "geographic_fit": ["360G-example-002"],
+    "size_compatibility": ["360G-example-001"],
+    "activity_level": ["360G-example-003"],
+    "historical_precedent": ["360G-example-001"]
+  },
+  "similar_charities_funded": [
+    {
+      "charity_name": "Example Charity",
+      "grant_amount": 50000,
+      "award_date": "2023-06-15",
+      "grant_purpose": "Core support for youth services"
+    }
+  ]
+}
+\`\`\`
+
+Score every funder above, including weak matches, so results can be ranked against other batches. Be specific and evidence-based in your reasoning, and keep it to 2-4 sentences per funder. For each factor, cite the Grant IDs of the listed grants that support your score; cite only IDs shown for that funder, and leave a list empty rather than guessing.`;
+
+/**
+ * Render the charity profile and the funders to score, as used by v1
+ * A version that changes how this data is presented needs its own renderer
+ * or option; v2 adds each funder's decision months, v3 labels every amount
+ * with its currency
+ */
+function renderProfileAndFunders(
+  charity: CharityProfile,
+  candidates: FunderCandidate[],
+  options: { seasonality?: boolean; currencies?: boolean } = {}
+): string {
+  // Extract charity characteristics
+  const activities =
+    charity.who_what_where
+      ?.filter((w) => w.classification_type === "What")
+      .map((w) => w.classification_desc)
+      .join(", ") || "Not specified";
+
+  const beneficiaries =
+    charity.who_what_where
+      ?.filter((w) => w.classification_type === "Who")
+      .map((w) => w.classification_desc)
+      .join(", ") || "Not specified";
+
+  const regions =
+    charity.CharityAoORegion?.map((r) => r.region).join(", ") ||
+    "Not specified";
+
+  const localAuthorities =
+    charity.CharityAoOLocalAuthority?.map((la) => la.local_authority).join(
+      ", "
+    ) || "Not specified";
+
+  let prompt = `# Charity Profile to Match
+
+**Charity Name:** ${charity.charity_name}
+**Registration Number:** ${charity.reg_charity_number}
+**Annual Income:** £${charity.latest_income?.toLocaleString() || "Not available"}
+**Annual Expenditure:** £${charity.latest_expenditure?.toLocaleString() || "Not available"}
+
+**Activities:** ${activities}
+**Beneficiaries:** ${beneficiaries}
+**Geographic Areas:**
+- Regions: ${regions}
+- Local Authorities: ${localAuthorities}
+
+---
+
+# Funders to Analyze
+
+`;
+
+  // Add funder information
+  candidates.forEach((candidate, index) => {
+    const { funder, grants, relevant_grants, prescore_breakdown } = candidate;
+    const funderStats = funder.funder_stats?.aggregate;
+    const totalGrants = funderStats?.grants || 0;
+    const avgAmount = funderStats?.currencies?.GBP?.avg || 0;
+    const totalAmount = funderStats?.currencies?.GBP?.total || 0;
+
+    prompt += `## Funder ${index + 1}: ${funder.name}
+**Org ID:** ${funder.org_id}
+**Total Grants Made:** ${totalGrants}
+${options.currencies ? renderGrantSizes(candidate) : `**Average Grant (GBP):** £${Math.round(avgAmount).toLocaleString()}
+**Total Granted (GBP):** £${Math.round(totalAmount).toLocaleString()}`}
+**Last Grant Date:** ${funder.last_grant_made_date || "Unknown"}${options.seasonality ? renderSeasonality(candidate) : ""}
+**Pre-screen Signals (0-100):** cause overlap ${prescore_breakdown.cause_overlap}, geography ${prescore_breakdown.geographic_fit}, size ${prescore_breakdown.size_compatibility}, activity ${prescore_breakdown.activity_level}
+
+**${relevant_grants?.length ? "Grants Most Similar to This Charity" : "Recent Grants (sample)"}:**
+${(relevant_grants?.length ? relevant_grants : grants)
+  .slice(0, 5)
+  .map(
+    (grant, i) => `${i + 1}. ${grant.title || "Untitled"} - ${options.currencies ? formatAmount(grant.amount_awarded || 0, grant.currency) : `£${grant.amount_awarded?.toLocaleString() || "0"}`} (${grant.award_date})
+   Grant ID: ${grant.grant_id}
+   Recipient: ${grant.recipient_org_id || "Unknown"}
+   ${grant.description ? `Description: ${grant.description.substring(0, 200)}...` : ""}`
+  )
+  .join("\n")}
+
+---
+
+`;
+  });
+
+  return prompt;
+}
+
+/**
+ * Describe a funder's grant sizes in GBP equivalents, and in each currency it
+ * gives in when that isn't only GBP
+ */
+function renderGrantSizes(candidate: FunderCandidate): string {
+  const { funder, gbp_stats } = candidate;
+  const currencies = Object.entries(
+    funder.funder_stats?.aggregate?.currencies || {}
+  ).sort(([, a], [, b]) => b.grants - a.grants);
+
+  let text = gbp_stats
+    ? `**Average Grant (GBP equivalent):** ${formatAmount(gbp_stats.avg)}
+**Total Granted (GBP equivalent):** ${formatAmount(gbp_stats.total)}`
+    : "**Average Grant:** Unknown";
+
+  if (currencies.some(([currency]) => currency !== "GBP")) {
+    text += `\n**Grants by Currency:** ${currencies
+      .map(
+        ([currency, stats]) =>
+          `${currency}: ${stats.grants} grants, average ${formatAmount(stats.avg, currency)}`
+      )
+      .join("; ")}`;
+  }
+
+  return text;
+}
+
+/**
+ * Describe when a funder makes its awards, for the activity level factor
+ */
+function renderSeasonality(candidate: FunderCandidate): string {
+  const { seasonality, upcoming_award_share } = candidate;
+  if (!seasonality || upcoming_award_share === null) {
+    return "\n**Award Timing:** Too few recent awards to show a pattern";
+  }
+
+  const clusters = seasonality.clusters.length
+    ? seasonality.clusters
+        .map(
+          (c) => `${formatMonths(c.months)} (${Math.round(c.share * 100)}%)`
+        )
+        .join(", ")
+    : "spread through the year";
+
+  return `
+**Usual Decision Months:** ${clusters}, from ${seasonality.grants} awards since ${seasonality.from}
+**Awards Usually Made in the Next ${UPCOMING_MONTHS} Months:** ${Math.round(upcoming_award_share * 100)}% (${Math.round((UPCOMING_MONTHS / 12) * 100)}% if spread evenly)`;
+}
+
+export const MATCHING_PROMPTS: Record<string, MatchingPrompt> = {
+  v1: {
+    version: "v1",
+    description:
+      "Structured tool output with pre-screen signals, weighted factors, verified examples and per-factor grant evidence",
+    system: V1_SYSTEM_PROMPT,
+    buildPrompt: (charity, candidates) =>
+      `${renderProfileAndFunders(charity, candidates)}\n${V1_TASK}`,
+  },
+  v2: {
+    version: "v2",
+    description:
+      "v1 plus each funder's usual decision months, with activity level reflecting awards due in the coming months",
+    system: V2_SYSTEM_PROMPT,
+    buildPrompt: (charity, candidates) =>
+      `${renderProfileAndFunders(charity, candidates, { seasonality: true })}\n${V1_TASK}`,
+  },
+  v3: {
+    version: "v3",
+    description:
+      "v2 with every amount labelled with its currency and grant sizes compared in GBP equivalents",
+    system: V3_SYSTEM_PROMPT,
+    buildPrompt: (charity, candidates) =>
+      `${renderProfileAndFunders(charity, candidates, {
+        seasonality: true,
+        currencies: true,
+      })}\n${V1_TASK}`,
+  },
+};
+
+export const DEFAULT_MATCHING_PROMPT_VERSION = "v3";
+
+/**
+ * Get a prompt version, defaulting to MATCHING_PROMPT_VERSION from the
+ * environment and then to the current default
+ */
+export function getMatchingPrompt(version?: string): MatchingPrompt {
+  const selected =
+    version ||
+    process.env.MATCHING_PROMPT_VERSION ||
+    DEFAULT_MATCHING_PROMPT_VERSION;
+  const prompt = MATCHING_PROMPTS[selected];
+
+  if (!prompt) {
+    throw new Error(
+      `Unknown matching prompt version "${selected}". Available: ${Object.keys(MATCHING_PROMPTS).join(", ")}`
+    );
+  }
+
+  return prompt;
+}
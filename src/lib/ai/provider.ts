@@ -0,0 +1,87 @@
+import type { CharityProfile } from "@/types";
+import type { FunderCandidate } from "./prescoring";
+import { AnthropicProvider } from "./anthropic-provider";
+import { OfflineProvider } from "./offline-provider";
+
+/**
+ * Input for a single structured matching call
+ * Providers receive both the rendered prompt and the data it was built from,
+ * so non-LLM providers can score without parsing text
+ */
+export interface MatchGenerationRequest {
+  system: string;
+  prompt: string;
+  charity: CharityProfile;
+  candidates: FunderCandidate[];
+  /** Validation errors from an unusable previous attempt */
+  retryErrors?: string[];
+  /** Called with the partially built `{ matches: [...] }` payload as it grows */
+  onPartial?: (snapshot: unknown) => void;
+  /** False when the call bypasses a cached result, recorded with usage */
+  cacheMiss?: boolean;
+}
+
+/**
+ * A source of funder match scores
+ */
+export interface MatchingProvider {
+  /** Short identifier, e.g. "anthropic" or "offline" */
+  readonly name: string;
+  /** Model identifier recorded alongside results */
+  readonly model: string;
+  /** Whether calls spend tokens, and so count against the AI budget */
+  readonly costsTokens: boolean;
+
+  /**
+   * Produce the raw `{ matches: [...] }` payload for the candidates
+   * The payload is validated by the caller, so it may be malformed
+   */
+  generateMatches(request: MatchGenerationRequest): Promise<unknown>;
+
+  /**
+   * Check that the provider is reachable and configured
+   */
+  testConnection(): Promise<boolean>;
+}
+
+let activeProvider: MatchingProvider | null = null;
+
+/**
+ * Get the configured matching provider
+ * AI_PROVIDER selects "anthropic" or "offline"; when unset, the offline
+ * provider is used if no ANTHROPIC_API_KEY is available
+ */
+export function getMatchingProvider(): MatchingProvider {
+  if (!activeProvider) {
+    const configured = process.env.AI_PROVIDER;
+
+    if (configured === "offline") {
+      activeProvider = new OfflineProvider();
+    } else if (configured === "anthropic" || process.env.ANTHROPIC_API_KEY) {
+      activeProvider = new AnthropicProvider();
+    } else {
+      console.warn(
+        "⚠️ ANTHROPIC_API_KEY is not set, using the offline matching provider"
+      );
+      activeProvider = new OfflineProvider();
+    }
+  }
+
+  return activeProvider;
+}
+
+/**
+ * Whether a language model is configured for the features the offline
+ * provider can't stand in for, such as chat and drafting
+ */
+export function isLanguageModelAvailable(): boolean {
+  return getMatchingProvider() instanceof AnthropicProvider;
+}
+
+/**
+ * Override the matching provider (for scripts and testing)
+ * Pass null to fall back to the configured provider
+ */
+export function setMatchingProvider(provider: MatchingProvider | null): void {
+  activeProvider = provider;
+}
@@ -0,0 +1,85 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import type { MatchGenerationRequest, MatchingProvider } from "./provider";
+
+interface Recording {
+  model: string;
+  responses: Record<string, unknown>;
+}
+
+/**
+ * Matching provider that replays recorded responses, so evaluations of the
+ * same prompts against the same data are repeatable without API calls
+ * Given an inner provider it records instead: every call goes to the inner
+ * provider and its response is saved to the recording file
+ */
+export class RecordedProvider implements MatchingProvider {
+  readonly name = "recorded";
+  readonly model: string;
+  readonly costsTokens: boolean;
+
+  private readonly recording: Recording;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly inner?: MatchingProvider
+  ) {
+    this.recording = fs.existsSync(filePath)
+      ? (JSON.parse(fs.readFileSync(filePath, "utf8")) as Recording)
+      : { model: inner?.model ?? "unknown", responses: {} };
+
+    if (inner) {
+      this.recording.model = inner.model;
+    }
+    this.model = this.recording.model;
+    this.costsTokens = inner?.costsTokens ?? false;
+  }
+
+  async generateMatches(request: MatchGenerationRequest): Promise<unknown> {
+    const key = recordingKey(request);
+
+    if (!this.inner) {
+      if (!(key in this.recording.responses)) {
+        throw new Error(
+          `No recorded response for this prompt in ${this.filePath}; the prompt or data changed since recording`
+        );
+      }
+
+      const payload = this.recording.responses[key];
+      request.onPartial?.(payload);
+      return payload;
+    }
+
+    const payload = await this.inner.generateMatches(request);
+    this.recording.responses[key] = payload;
+    this.save();
+    return payload;
+  }
+
+  async testConnection(): Promise<boolean> {
+    return this.inner ? this.inner.testConnection() : true;
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.recording, null, 2));
+  }
+}
+
+/**
+ * Identify a call by everything sent to the model
+ */
+function recordingKey(request: MatchGenerationRequest): string {
+  return crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify({
+        system: request.system,
+        prompt: request.prompt,
+        retryErrors: request.retryErrors || [],
+      })
+    )
+    .digest("hex")
+    .substring(0, 32);
+}
@@ -0,0 +1,489 @@
+import { supabase } from "@/lib/supabase";
+import type { CharityProfile, Grant } from "@/types";
+
+// Supabase returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+// Posting values saved per insert, so no request grows with the index
+const INSERT_BATCH_VALUES = 50_000;
+
+// BM25 tuning parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Number of grant scores summed into a funder's relevance
+const GRANTS_PER_FUNDER_SCORE = 3;
+
+// Common English words ignored when indexing and querying
+const STOPWORDS = new Set([
+  "a",
+  "about",
+  "all",
+  "also",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "been",
+  "by",
+  "can",
+  "for",
+  "from",
+  "has",
+  "have",
+  "in",
+  "into",
+  "is",
+  "it",
+  "its",
+  "of",
+  "on",
+  "or",
+  "our",
+  "such",
+  "that",
+  "the",
+  "their",
+  "them",
+  "these",
+  "this",
+  "those",
+  "to",
+  "was",
+  "we",
+  "were",
+  "which",
+  "will",
+  "with",
+  "within",
+  "other",
+  "general",
+  "purposes",
+  "charitable",
+]);
+
+type IndexedDocument = [grantId: string, funderOrgId: string, length: number];
+
+interface GrantIndex {
+  id: string;
+  documents: IndexedDocument[];
+  avgDocumentLength: number;
+  builtAt: string;
+}
+
+export interface RetrievedGrant {
+  grant_id: string;
+  score: number;
+}
+
+export interface RetrievalResult {
+  /** Funder relevance scaled to 0-100, best funder first */
+  funderScores: Map<string, number>;
+  /** Best matching grants per funder, best first */
+  grantsByFunder: Map<string, RetrievedGrant[]>;
+}
+
+// In-memory copy of the latest build's documents, reloaded when a newer build
+// exists. Postings are read per search, for the query's terms only
+let cachedIndex: GrantIndex | null = null;
+
+/**
+ * Split text into lowercase, lightly stemmed terms
+ */
+function analyze(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length >= 3 && !STOPWORDS.has(token))
+    .map(stem);
+}
+
+/**
+ * Strip common English suffixes so "families" and "family" share a term
+ */
+function stem(token: string): string {
+  if (token.length > 5 && token.endsWith("ies")) return token.slice(0, -3) + "y";
+  if (token.length > 5 && token.endsWith("ing")) return token.slice(0, -3);
+  if (token.length > 4 && token.endsWith("s") && !token.endsWith("ss")) {
+    return token.slice(0, -1);
+  }
+  return token;
+}
+
+/**
+ * Text that represents a grant in the index
+ */
+function grantText(
+  grant: Pick<Grant, "title" | "description" | "grant_programme">
+): string {
+  return [
+    grant.title,
+    grant.description,
+    ...(grant.grant_programme || []).flatMap((p) => [p.title, p.description]),
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Rebuild the BM25 index over every grant and store it in Supabase
+ * Called at the end of each data sync
+ */
+export async function buildGrantIndex(): Promise<{
+  documents: number;
+  terms: number;
+}> {
+  const documents: IndexedDocument[] = [];
+  const postings: Record<string, number[]> = {};
+  let totalLength = 0;
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("grants")
+      .select("grant_id, funder_org_id, title, description, grant_programme")
+      .not("funder_org_id", "is", null)
+      .order("grant_id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch grants for indexing: ${error.message}`);
+    }
+
+    for (const grant of data || []) {
+      const terms = analyze(grantText(grant));
+      if (terms.length === 0) continue;
+
+      const docIndex = documents.length;
+      documents.push([grant.grant_id, grant.funder_org_id, terms.length]);
+      totalLength += terms.length;
+
+      const frequencies = new Map<string, number>();
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) || 0) + 1);
+      }
+      for (const [term, frequency] of frequencies) {
+        (postings[term] ||= []).push(docIndex, frequency);
+      }
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const avgDocumentLength = documents.length ? totalLength / documents.length : 0;
+  const builtAt = new Date().toISOString();
+  const terms = Object.keys(postings);
+
+  const { data: build, error: insertError } = await supabase
+    .from("grant_search_index")
+    .insert({
+      document_count: documents.length,
+      term_count: terms.length,
+      avg_document_length: avgDocumentLength,
+      built_at: builtAt,
+    })
+    .select("id")
+    .single();
+
+  if (insertError) {
+    throw new Error(`Failed to save grant index: ${insertError.message}`);
+  }
+
+  // Searches keep reading the previous build until this one is complete
+  try {
+    await insertInBatches(
+      "grant_search_documents",
+      documents.map(([grant_id, funder_org_id, length], position) => ({
+        index_id: build.id,
+        position,
+        grant_id,
+        funder_org_id,
+        length,
+      }))
+    );
+    await insertInBatches(
+      "grant_search_postings",
+      terms.map((term) => ({
+        index_id: build.id,
+        term,
+        postings: postings[term],
+      })),
+      (row) => row.postings.length
+    );
+
+    const { error } = await supabase
+      .from("grant_search_index")
+      .update({ complete: true })
+      .eq("id", build.id);
+    if (error) {
+      throw new Error(`Failed to save grant index: ${error.message}`);
+    }
+  } catch (error) {
+    await supabase.from("grant_search_index").delete().eq("id", build.id);
+    throw error;
+  }
+
+  // Only the newest build is ever read
+  await supabase.from("grant_search_index").delete().lt("built_at", builtAt);
+
+  cachedIndex = { id: build.id, documents, avgDocumentLength, builtAt };
+  console.log(`🔎 Indexed ${documents.length} grants (${terms.length} terms)`);
+
+  return { documents: documents.length, terms: terms.length };
+}
+
+/**
+ * Insert rows in batches of at most PAGE_SIZE rows and about
+ * INSERT_BATCH_VALUES values, weighing each row with `size`
+ */
+async function insertInBatches<T extends object>(
+  table: string,
+  rows: T[],
+  size: (row: T) => number = () => 1
+): Promise<void> {
+  let batch: T[] = [];
+  let batchSize = 0;
+
+  for (let i = 0; i < rows.length; i++) {
+    batch.push(rows[i]);
+    batchSize += size(rows[i]);
+
+    if (
+      i === rows.length - 1 ||
+      batch.length >= PAGE_SIZE ||
+      batchSize >= INSERT_BATCH_VALUES
+    ) {
+      const { error } = await supabase.from(table).insert(batch);
+      if (error) {
+        throw new Error(`Failed to save ${table}: ${error.message}`);
+      }
+      batch = [];
+      batchSize = 0;
+    }
+  }
+}
+
+/**
+ * Load the latest complete build's documents, reusing the in-memory copy
+ * when it is current
+ */
+async function loadGrantIndex(): Promise<GrantIndex | null> {
+  const { data: latest } = await supabase
+    .from("grant_search_index")
+    .select("id, avg_document_length, built_at")
+    .eq("complete", true)
+    .order("built_at", { ascending: false })
+    .limit(1)
+    .single();
+
+  if (!latest) {
+    return null;
+  }
+
+  // The database formats timestamps differently from toISOString
+  if (
+    cachedIndex &&
+    new Date(cachedIndex.builtAt).getTime() ===
+      new Date(latest.built_at).getTime()
+  ) {
+    return cachedIndex;
+  }
+
+  const documents: IndexedDocument[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("grant_search_documents")
+      .select("grant_id, funder_org_id, length")
+      .eq("index_id", latest.id)
+      .order("position")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch grant index: ${error.message}`);
+    }
+
+    for (const doc of data || []) {
+      documents.push([doc.grant_id, doc.funder_org_id, doc.length]);
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  cachedIndex = {
+    id: latest.id,
+    documents,
+    avgDocumentLength: Number(latest.avg_document_length),
+    builtAt: latest.built_at,
+  };
+  return cachedIndex;
+}
+
+/**
+ * Fetch the postings of the given terms from a build
+ */
+async function fetchPostings(
+  indexId: string,
+  terms: string[]
+): Promise<Map<string, number[]>> {
+  const postings = new Map<string, number[]>();
+
+  // Fetch in chunks to keep the request URL short
+  for (let i = 0; i < terms.length; i += 100) {
+    const { data, error } = await supabase
+      .from("grant_search_postings")
+      .select("term, postings")
+      .eq("index_id", indexId)
+      .in("term", terms.slice(i, i + 100));
+
+    if (error) {
+      throw new Error(`Failed to fetch grant index: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      postings.set(row.term, row.postings as number[]);
+    }
+  }
+
+  return postings;
+}
+
+/**
+ * Build the retrieval query from the charity's classifications and activities
+ */
+function buildCharityQuery(charity: CharityProfile): string {
+  return [
+    ...(charity.who_what_where || [])
+      .filter((w) => w.classification_type !== "How")
+      .map((w) => w.classification_desc),
+    charity.activities,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Fetch the IDs of grants awarded on or after a date, or undated, which are
+ * hidden when matching as of that date
+ */
+async function fetchGrantIdsFrom(date: string): Promise<Set<string>> {
+  const grantIds = new Set<string>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("grants")
+      .select("grant_id")
+      .or(`award_date.gte.${date},award_date.is.null`)
+      .order("grant_id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch grants: ${error.message}`);
+    }
+
+    for (const grant of data || []) {
+      grantIds.add(grant.grant_id);
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return grantIds;
+}
+
+/**
+ * Find the funders and grants whose text is most similar to the charity's mission
+ * Returns empty results if no index has been built yet
+ *
+ * @param options - Grants kept per funder, and asOf to search only grants
+ *   awarded before that date (term statistics still cover the whole index)
+ */
+export async function retrieveRelevantGrants(
+  charity: CharityProfile,
+  options: { grantsPerFunder?: number; asOf?: string } = {}
+): Promise<RetrievalResult> {
+  const { grantsPerFunder = 5, asOf } = options;
+  const empty: RetrievalResult = {
+    funderScores: new Map(),
+    grantsByFunder: new Map(),
+  };
+
+  const queryTerms = Array.from(new Set(analyze(buildCharityQuery(charity))));
+  if (queryTerms.length === 0) {
+    return empty;
+  }
+
+  let index: GrantIndex | null;
+  let postings: Map<string, number[]>;
+  try {
+    index = await loadGrantIndex();
+    postings = index ? await fetchPostings(index.id, queryTerms) : new Map();
+  } catch (error) {
+    console.error("Failed to load grant index:", error);
+    return empty;
+  }
+  if (!index || index.documents.length === 0) {
+    return empty;
+  }
+
+  const hiddenGrantIds = asOf ? await fetchGrantIdsFrom(asOf) : null;
+
+  // Accumulate BM25 scores per document
+  const docScores = new Map<number, number>();
+  const totalDocs = index.documents.length;
+  for (const term of queryTerms) {
+    const posting = postings.get(term);
+    if (!posting) continue;
+
+    const docFrequency = posting.length / 2;
+    const idf = Math.log(1 + (totalDocs - docFrequency + 0.5) / (docFrequency + 0.5));
+
+    for (let i = 0; i < posting.length; i += 2) {
+      const docIndex = posting[i];
+      if (hiddenGrantIds?.has(index.documents[docIndex][0])) continue;
+
+      const frequency = posting[i + 1];
+      const length = index.documents[docIndex][2];
+      const norm =
+        frequency +
+        BM25_K1 * (1 - BM25_B + (BM25_B * length) / (index.avgDocumentLength || 1));
+      const score = (idf * frequency * (BM25_K1 + 1)) / norm;
+      docScores.set(docIndex, (docScores.get(docIndex) || 0) + score);
+    }
+  }
+
+  // Group scored grants by funder
+  const grantsByFunder = new Map<string, RetrievedGrant[]>();
+  for (const [docIndex, score] of docScores) {
+    const [grant_id, funderOrgId] = index.documents[docIndex];
+    const existing = grantsByFunder.get(funderOrgId);
+    if (existing) {
+      existing.push({ grant_id, score });
+    } else {
+      grantsByFunder.set(funderOrgId, [{ grant_id, score }]);
+    }
+  }
+
+  // A funder is as relevant as its few best grants
+  const rawFunderScores = new Map<string, number>();
+  for (const [funderOrgId, grants] of grantsByFunder) {
+    grants.sort((a, b) => b.score - a.score);
+    rawFunderScores.set(
+      funderOrgId,
+      grants
+        .slice(0, GRANTS_PER_FUNDER_SCORE)
+        .reduce((sum, g) => sum + g.score, 0)
+    );
+    grantsByFunder.set(funderOrgId, grants.slice(0, grantsPerFunder));
+  }
+
+  const maxScore = Math.max(...rawFunderScores.values());
+  const funderScores = new Map(
+    Array.from(rawFunderScores)
+      .sort((a, b) => b[1] - a[1])
+      .map(([funderOrgId, score]) => [
+        funderOrgId,
+        Math.round((100 * score) / maxScore),
+      ])
+  );
+
+  return { funderScores, grantsByFunder };
+}
@@ -0,0 +1,302 @@
+import { z } from "zod";
+import { describeMatchFilters, hasMatchFilters } from "@/lib/match-filters";
+import { supabase } from "@/lib/supabase";
+import { SCORE_FACTORS } from "@/lib/scoring";
+import type { FunderCandidate } from "./prescoring";
+import type {
+  CharityProfile,
+  FunderMatch,
+  FunderRunChange,
+  MatchFilters,
+  MatchRun,
+  MatchRunDiff,
+  MatchRunInputs,
+  MatchRunSummary,
+} from "@/types";
+
+// Runs are keyed by UUID, so any other ID can't name one
+const runIdSchema = z.uuid();
+
+// Number of top matches shown to users, and so compared between runs
+const RUN_LIST_SIZE = 20;
+
+const SUMMARY_COLUMNS =
+  "id, charity_number, charity_name, provider, model, prompt_version, funder_count, last_sync_at, created_at";
+
+/**
+ * Record a matching run. Failures are logged rather than thrown so history
+ * never blocks a match
+ */
+export async function recordMatchRun(run: {
+  charityProfile: CharityProfile;
+  cacheKey: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  candidates: FunderCandidate[];
+  matches: FunderMatch[];
+  lastSyncAt: string | null;
+  filters?: MatchFilters;
+}): Promise<void> {
+  const { charityProfile } = run;
+  const codes = (type: string) =>
+    (charityProfile.who_what_where || [])
+      .filter((w) => w.classification_type === type)
+      .map((w) => w.classification_desc)
+      .sort();
+
+  const inputs: MatchRunInputs = {
+    charity: {
+      charity_name: charityProfile.charity_name,
+      latest_income: charityProfile.latest_income ?? null,
+      activities: codes("What"),
+      beneficiaries: codes("Who"),
+      regions: (charityProfile.CharityAoORegion || [])
+        .map((r) => r.region)
+        .sort(),
+    },
+    candidates: run.candidates.map((c) => ({
+      org_id: c.funder.org_id,
+      prescore: c.prescore,
+    })),
+    ...(hasMatchFilters(run.filters) && { filters: run.filters }),
+  };
+
+  try {
+    const { error } = await supabase.from("match_runs").insert({
+      charity_number: charityProfile.reg_charity_number,
+      charity_name: charityProfile.charity_name,
+      cache_key: run.cacheKey,
+      provider: run.provider,
+      model: run.model,
+      prompt_version: run.promptVersion,
+      inputs,
+      matches: run.matches,
+      funder_count: run.matches.length,
+      last_sync_at: run.lastSyncAt,
+    });
+
+    if (error) throw error;
+    console.log(
+      `📝 Recorded match run for charity ${charityProfile.reg_charity_number}`
+    );
+  } catch (error) {
+    console.error("Failed to record match run:", error);
+  }
+}
+
+/**
+ * List a charity's runs, newest first, without their results
+ */
+export async function listMatchRuns(
+  charityNumber: number,
+  limit = 50
+): Promise<MatchRunSummary[]> {
+  const { data, error } = await supabase
+    .from("match_runs")
+    .select(SUMMARY_COLUMNS)
+    .eq("charity_number", charityNumber)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch match runs: ${error.message}`);
+  }
+
+  return (data || []) as MatchRunSummary[];
+}
+
+/**
+ * Get a single run with its inputs and results
+ */
+export async function getMatchRun(id: string): Promise<MatchRun | null> {
+  if (!runIdSchema.safeParse(id).success) return null;
+
+  const { data, error } = await supabase
+    .from("match_runs")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch match run: ${error.message}`);
+  }
+
+  return (data as MatchRun) || null;
+}
+
+/**
+ * Compare two runs: funders that entered or left the top matches, score and
+ * rank changes for funders in both, and what changed in the runs' inputs
+ */
+export function diffMatchRuns(from: MatchRun, to: MatchRun): MatchRunDiff {
+  const fromRanks = rankIndex(from.matches);
+  const toRanks = rankIndex(to.matches);
+  const fromTop = new Set(
+    from.matches.slice(0, RUN_LIST_SIZE).map((m) => m.funder.org_id)
+  );
+  const toTop = new Set(
+    to.matches.slice(0, RUN_LIST_SIZE).map((m) => m.funder.org_id)
+  );
+
+  const change = (orgId: string): FunderRunChange => {
+    const before = fromRanks.get(orgId);
+    const after = toRanks.get(orgId);
+
+    const factor_changes: FunderRunChange["factor_changes"] = {};
+    if (before && after) {
+      for (const factor of SCORE_FACTORS) {
+        const delta =
+          after.match.score_breakdown[factor] -
+          before.match.score_breakdown[factor];
+        if (delta !== 0) factor_changes[factor] = delta;
+      }
+    }
+
+    const side = (entry?: RankedMatch) => ({
+      rank: entry?.rank ?? null,
+      score: entry?.match.match_score ?? null,
+      reasoning: entry?.match.reasoning ?? null,
+    });
+
+    return {
+      funder_org_id: orgId,
+      funder_name: (after || before)?.match.funder.name || orgId,
+      before: side(before),
+      after: side(after),
+      score_change:
+        before && after
+          ? after.match.match_score - before.match.match_score
+          : null,
+      factor_changes,
+      reasoning_changed:
+        !!before &&
+        !!after &&
+        normaliseText(before.match.reasoning) !==
+          normaliseText(after.match.reasoning),
+    };
+  };
+
+  const byNewRank = (a: FunderRunChange, b: FunderRunChange) =>
+    (a.after.rank ?? Infinity) - (b.after.rank ?? Infinity) ||
+    (a.before.rank ?? Infinity) - (b.before.rank ?? Infinity);
+
+  return {
+    from: toSummary(from),
+    to: toSummary(to),
+    input_changes: describeInputChanges(from, to),
+    entered: [...toTop].filter((id) => !fromTop.has(id)).map(change),
+    left: [...fromTop]
+      .filter((id) => !toTop.has(id))
+      .map(change)
+      .sort(byNewRank),
+    changed: [...toTop]
+      .filter((id) => fromTop.has(id))
+      .map(change)
+      .filter(
+        (c) =>
+          c.score_change !== 0 ||
+          c.before.rank !== c.after.rank ||
+          c.reasoning_changed
+      )
+      .sort(
+        (a, b) =>
+          Math.abs(b.score_change ?? 0) - Math.abs(a.score_change ?? 0) ||
+          byNewRank(a, b)
+      ),
+  };
+}
+
+interface RankedMatch {
+  rank: number;
+  match: FunderMatch;
+}
+
+/**
+ * Index a run's matches by funder, with 1-based ranks
+ */
+function rankIndex(matches: FunderMatch[]): Map<string, RankedMatch> {
+  return new Map(
+    matches.map((match, i) => [match.funder.org_id, { rank: i + 1, match }])
+  );
+}
+
+function toSummary(run: MatchRun): MatchRunSummary {
+  return {
+    id: run.id,
+    charity_number: run.charity_number,
+    charity_name: run.charity_name,
+    provider: run.provider,
+    model: run.model,
+    prompt_version: run.prompt_version,
+    funder_count: run.funder_count,
+    last_sync_at: run.last_sync_at,
+    created_at: run.created_at,
+  };
+}
+
+function normaliseText(text: string): string {
+  return text.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/**
+ * Describe what changed in the runs' setup, in plain language for trustees
+ */
+function describeInputChanges(from: MatchRun, to: MatchRun): string[] {
+  const changes: string[] = [];
+
+  if (from.provider !== to.provider || from.model !== to.model) {
+    changes.push(`Model changed from ${from.model} to ${to.model}`);
+  }
+  if (from.prompt_version !== to.prompt_version) {
+    changes.push(
+      `Matching prompt changed from ${from.prompt_version} to ${to.prompt_version}`
+    );
+  }
+  if (from.last_sync_at !== to.last_sync_at) {
+    changes.push("Grant data was re-synced between runs");
+  }
+
+  const before = from.inputs.charity;
+  const after = to.inputs.charity;
+  if (before.latest_income !== after.latest_income) {
+    changes.push(
+      `Charity income changed from £${(before.latest_income ?? 0).toLocaleString()} to £${(after.latest_income ?? 0).toLocaleString()}`
+    );
+  }
+  for (const field of ["activities", "beneficiaries", "regions"] as const) {
+    if (before[field].join("|") !== after[field].join("|")) {
+      changes.push(`Charity ${field} changed`);
+    }
+  }
+
+  // Recorded filters are normalised, so equal filters serialise the same
+  if (
+    JSON.stringify(from.inputs.filters ?? {}) !==
+    JSON.stringify(to.inputs.filters ?? {})
+  ) {
+    const fromFilters = describeMatchFilters(from.inputs.filters ?? {});
+    const toFilters = describeMatchFilters(to.inputs.filters ?? {});
+    if (!fromFilters.length) {
+      changes.push(`Filters added: ${toFilters.join("; ")}`);
+    } else if (!toFilters.length) {
+      changes.push(`Filters removed: ${fromFilters.join("; ")}`);
+    } else {
+      changes.push(
+        `Filters changed from ${fromFilters.join("; ")} to ${toFilters.join("; ")}`
+      );
+    }
+  }
+
+  const fromPool = new Set(from.inputs.candidates.map((c) => c.org_id));
+  const toPool = new Set(to.inputs.candidates.map((c) => c.org_id));
+  const added = [...toPool].filter((id) => !fromPool.has(id)).length;
+  const removed = [...fromPool].filter((id) => !toPool.has(id)).length;
+  if (added || removed) {
+    changes.push(
+      `${added} funders joined and ${removed} left the shortlist sent for scoring`
+    );
+  }
+
+  return changes;
+}
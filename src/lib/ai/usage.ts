@@ -0,0 +1,251 @@
+import { supabase } from "@/lib/supabase";
+import type { AiSpendSummary, AiUsageOperation } from "@/types";
+
+// Supabase returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+// USD per million tokens, matched against the start of the model ID
+// Prompt cache writes cost 1.25x and reads 0.1x the input price
+const MODEL_PRICING: { prefix: string; input: number; output: number }[] = [
+  { prefix: "claude-opus-4-5", input: 5, output: 25 },
+  { prefix: "claude-opus-4", input: 15, output: 75 },
+  { prefix: "claude-sonnet-4", input: 3, output: 15 },
+  { prefix: "claude-3-7-sonnet", input: 3, output: 15 },
+  { prefix: "claude-haiku-4-5", input: 1, output: 5 },
+  { prefix: "claude-3-5-haiku", input: 0.8, output: 4 },
+];
+
+// Unknown models are priced like Sonnet rather than as free
+const DEFAULT_PRICING = { input: 3, output: 15 };
+
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+}
+
+export interface AiBudgetStatus {
+  exhausted: boolean;
+  // The first limit reached, when exhausted
+  period?: "daily" | "monthly";
+  limit?: number;
+  spent: { today: number; month: number };
+}
+
+/**
+ * Estimate the USD cost of a call from its token usage
+ */
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const pricing =
+    MODEL_PRICING.find((p) => model.startsWith(p.prefix)) || DEFAULT_PRICING;
+
+  const cost =
+    usage.input_tokens * pricing.input +
+    (usage.cache_creation_input_tokens || 0) * pricing.input * 1.25 +
+    (usage.cache_read_input_tokens || 0) * pricing.input * 0.1 +
+    usage.output_tokens * pricing.output;
+
+  return cost / 1_000_000;
+}
+
+/**
+ * Log one AI call. Failures are logged rather than thrown so accounting
+ * never breaks the call it describes
+ */
+export async function recordAiUsage(entry: {
+  operation: AiUsageOperation;
+  provider: string;
+  model: string;
+  usage?: TokenUsage | null;
+  latencyMs: number;
+  charityNumber?: number | null;
+  // Whether the call was made because no cached result existed
+  cacheMiss?: boolean | null;
+  error?: string | null;
+}): Promise<void> {
+  const usage = entry.usage || { input_tokens: 0, output_tokens: 0 };
+  const cost = estimateCost(entry.model, usage);
+
+  try {
+    const { error } = await supabase.from("ai_usage_log").insert({
+      operation: entry.operation,
+      provider: entry.provider,
+      model: entry.model,
+      input_tokens: usage.input_tokens,
+      output_tokens: usage.output_tokens,
+      cache_creation_input_tokens: usage.cache_creation_input_tokens || 0,
+      cache_read_input_tokens: usage.cache_read_input_tokens || 0,
+      cost_usd: cost,
+      latency_ms: Math.round(entry.latencyMs),
+      charity_number: entry.charityNumber ?? null,
+      cache_miss: entry.cacheMiss ?? null,
+      success: !entry.error,
+      error: entry.error || null,
+    });
+
+    if (error) throw error;
+    console.log(
+      `💷 ${entry.operation} call: ${usage.input_tokens} in / ${usage.output_tokens} out tokens, $${cost.toFixed(4)}, ${Math.round(entry.latencyMs)}ms`
+    );
+  } catch (error) {
+    console.error("Failed to record AI usage:", error);
+  }
+}
+
+/**
+ * Daily and monthly spend limits in USD, from AI_DAILY_BUDGET_USD and
+ * AI_MONTHLY_BUDGET_USD. Unset or invalid limits mean no cap
+ */
+export function getAiBudgetLimits(): { daily: number | null; monthly: number | null } {
+  const parse = (value?: string) => {
+    const num = Number(value);
+    return value && Number.isFinite(num) && num >= 0 ? num : null;
+  };
+
+  return {
+    daily: parse(process.env.AI_DAILY_BUDGET_USD),
+    monthly: parse(process.env.AI_MONTHLY_BUDGET_USD),
+  };
+}
+
+/**
+ * Compare today's and this month's spend (UTC) with the budget limits
+ */
+export async function checkAiBudget(): Promise<AiBudgetStatus> {
+  const limits = getAiBudgetLimits();
+  const now = new Date();
+  const dayStart = startOfUtcDay(now);
+  const monthStart = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)
+  );
+
+  if (limits.daily === null && limits.monthly === null) {
+    return { exhausted: false, spent: { today: 0, month: 0 } };
+  }
+
+  const spent = await fetchSpend(dayStart, monthStart);
+
+  if (limits.daily !== null && spent.today >= limits.daily) {
+    return { exhausted: true, period: "daily", limit: limits.daily, spent };
+  }
+  if (limits.monthly !== null && spent.month >= limits.monthly) {
+    return { exhausted: true, period: "monthly", limit: limits.monthly, spent };
+  }
+
+  return { exhausted: false, spent };
+}
+
+/**
+ * Spend per day for the last `days` days, plus today's and this month's
+ * totals against the limits
+ */
+export async function getAiSpendSummary(days = 30): Promise<AiSpendSummary> {
+  const now = new Date();
+  const dayStart = startOfUtcDay(now);
+  const monthStart = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)
+  );
+  const rangeStart = new Date(dayStart);
+  rangeStart.setUTCDate(rangeStart.getUTCDate() - (days - 1));
+
+  const rows = await fetchUsageSince(
+    rangeStart < monthStart ? rangeStart : monthStart
+  );
+
+  const daily = Array.from({ length: days }, (_, i) => {
+    const date = new Date(rangeStart);
+    date.setUTCDate(date.getUTCDate() + i);
+    return {
+      date: date.toISOString().slice(0, 10),
+      cost_usd: 0,
+      calls: 0,
+      input_tokens: 0,
+      output_tokens: 0,
+    };
+  });
+  const byDate = new Map(daily.map((d) => [d.date, d]));
+
+  for (const row of rows) {
+    const day = byDate.get(row.created_at.slice(0, 10));
+    if (!day) continue;
+    day.cost_usd += Number(row.cost_usd) || 0;
+    day.calls++;
+    day.input_tokens += row.input_tokens || 0;
+    day.output_tokens += row.output_tokens || 0;
+  }
+
+  return {
+    daily,
+    today: sumCost(rows.filter((r) => new Date(r.created_at) >= dayStart)),
+    month: sumCost(rows.filter((r) => new Date(r.created_at) >= monthStart)),
+    limits: getAiBudgetLimits(),
+  };
+}
+
+interface UsageRow {
+  cost_usd: number | string;
+  input_tokens: number;
+  output_tokens: number;
+  created_at: string;
+}
+
+/**
+ * Sum the spend since the start of a day and of a month in the database
+ */
+async function fetchSpend(
+  dayStart: Date,
+  monthStart: Date
+): Promise<{ today: number; month: number }> {
+  const { data, error } = await supabase
+    .rpc("ai_spend", {
+      day_start: dayStart.toISOString(),
+      month_start: monthStart.toISOString(),
+    })
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to fetch AI spend: ${error.message}`);
+  }
+
+  const spend = data as { today: number | string; month: number | string };
+  return {
+    today: Number(spend.today) || 0,
+    month: Number(spend.month) || 0,
+  };
+}
+
+/**
+ * Fetch usage rows since a date, paging past the Supabase row limit
+ */
+async function fetchUsageSince(since: Date): Promise<UsageRow[]> {
+  const rows: UsageRow[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("ai_usage_log")
+      .select("cost_usd, input_tokens, output_tokens, created_at")
+      .gte("created_at", since.toISOString())
+      .order("created_at")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch AI usage: ${error.message}`);
+    }
+
+    rows.push(...((data || []) as UsageRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+function sumCost(rows: UsageRow[]): number {
+  return rows.reduce((sum, row) => sum + (Number(row.cost_usd) || 0), 0);
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+}
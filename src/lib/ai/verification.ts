@@ -0,0 +1,186 @@
+import { supabase } from "@/lib/supabase";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import type { FunderMatch, Grant, SimilarCharityExample } from "@/types";
+
+// Grants per funder checked when verifying examples
+const GRANTS_PER_FUNDER = 500;
+
+// Words dropped when comparing organisation names
+const NAME_NOISE = /\b(the|ltd|limited|cio|cic|plc|inc|charity|charitable|uk)\b/g;
+
+type GrantRow = Pick<
+  Grant,
+  | "grant_id"
+  | "title"
+  | "description"
+  | "amount_awarded"
+  | "currency"
+  | "award_date"
+  | "recipient_org_id"
+>;
+
+/**
+ * Check every AI-cited similar charity against the funder's real grants
+ * Verified examples have their recipient name, amount, currency, award date
+ * and purpose replaced with the values from the database; the rest are
+ * marked unverified
+ */
+export async function verifySimilarCharities(
+  matches: FunderMatch[]
+): Promise<FunderMatch[]> {
+  return mapWithConcurrency(matches, 5, async (match) => {
+    if (match.similar_charities_funded.length === 0) {
+      return match;
+    }
+
+    try {
+      const grants = await fetchFunderGrants(match.funder.org_id);
+      const recipientNames = await fetchRecipientNames(grants);
+
+      const used = new Set<string>();
+      const similar_charities_funded = match.similar_charities_funded.map(
+        (example) => {
+          const grant = findCitedGrant(example, grants, recipientNames, used);
+          if (!grant) {
+            return { ...example, verified: false };
+          }
+
+          used.add(grant.grant_id);
+          return {
+            charity_name:
+              recipientNames.get(grant.recipient_org_id) ||
+              grant.recipient_org_id ||
+              example.charity_name,
+            grant_amount: Number(grant.amount_awarded) || 0,
+            currency: grant.currency || "GBP",
+            award_date: grant.award_date,
+            grant_purpose: grant.title || grant.description || "",
+            grant_id: grant.grant_id,
+            recipient_org_id: grant.recipient_org_id,
+            verified: true,
+          };
+        }
+      );
+
+      return { ...match, similar_charities_funded };
+    } catch (error) {
+      // Leave the examples unverified rather than failing the match
+      console.error(
+        `Failed to verify examples for ${match.funder.org_id}:`,
+        error
+      );
+      return {
+        ...match,
+        similar_charities_funded: match.similar_charities_funded.map(
+          (example) => ({ ...example, verified: false })
+        ),
+      };
+    }
+  });
+}
+
+/**
+ * Fetch the funder's grants, most recent first
+ */
+async function fetchFunderGrants(funderOrgId: string): Promise<GrantRow[]> {
+  const { data, error } = await supabase
+    .from("grants")
+    .select(
+      "grant_id, title, description, amount_awarded, currency, award_date, recipient_org_id"
+    )
+    .eq("funder_org_id", funderOrgId)
+    .order("award_date", { ascending: false })
+    .limit(GRANTS_PER_FUNDER);
+
+  if (error) {
+    throw new Error(`Failed to fetch grants: ${error.message}`);
+  }
+
+  return (data || []) as GrantRow[];
+}
+
+/**
+ * Look up recipient organisation names for a set of grants
+ */
+async function fetchRecipientNames(
+  grants: GrantRow[]
+): Promise<Map<string, string>> {
+  const recipientIds = Array.from(
+    new Set(grants.map((g) => g.recipient_org_id).filter(Boolean))
+  );
+  const names = new Map<string, string>();
+
+  // Fetch in chunks to keep the request URL short
+  for (let i = 0; i < recipientIds.length; i += 100) {
+    const { data } = await supabase
+      .from("organisations")
+      .select("org_id, name")
+      .in("org_id", recipientIds.slice(i, i + 100));
+
+    for (const org of data || []) {
+      names.set(org.org_id, org.name);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Normalise an organisation name for comparison
+ */
+function normaliseName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9 ]+/g, " ")
+    .replace(NAME_NOISE, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Find the grant an example refers to: the recipient must match by org ID or
+ * name, and among those the closest amount and date wins
+ */
+function findCitedGrant(
+  example: SimilarCharityExample,
+  grants: GrantRow[],
+  recipientNames: Map<string, string>,
+  used: Set<string>
+): GrantRow | null {
+  const cited = normaliseName(example.charity_name || "");
+  if (!cited) return null;
+
+  const candidates = grants.filter((grant) => {
+    if (used.has(grant.grant_id) || !grant.recipient_org_id) return false;
+    if (grant.recipient_org_id.toLowerCase() === example.charity_name.trim().toLowerCase()) {
+      return true;
+    }
+
+    const name = normaliseName(recipientNames.get(grant.recipient_org_id) || "");
+    if (!name) return false;
+    return (
+      name === cited ||
+      (Math.min(name.length, cited.length) >= 5 &&
+        (name.includes(cited) || cited.includes(name)))
+    );
+  });
+
+  if (candidates.length === 0) return null;
+
+  const citedTime = new Date(example.award_date).getTime();
+  const distance = (grant: GrantRow) => {
+    const amountGap =
+      Math.abs(Number(grant.amount_awarded) - example.grant_amount) /
+      Math.max(1, example.grant_amount);
+    const dateGap = Number.isNaN(citedTime)
+      ? 0
+      : Math.abs(new Date(grant.award_date).getTime() - citedTime) /
+        (1000 * 60 * 60 * 24 * 365);
+    return amountGap + dateGap;
+  };
+
+  return candidates.reduce((best, grant) =>
+    distance(grant) < distance(best) ? grant : best
+  );
+}
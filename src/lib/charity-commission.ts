@@ -115,7 +115,7 @@ export async function getCharityProfile(
 }
 
 // Mapping from Charity Commission classification codes to standardized cause areas
-const CLASSIFICATION_CODE_MAP: Record<string, string> = {
+export const CLASSIFICATION_CODE_MAP: Record<string, string> = {
   // "What" classifications (100 series)
   "101": "Education and training",
   "102": "Arts and culture",
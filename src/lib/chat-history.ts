@@ -0,0 +1,14 @@
+import type { ChatMessage } from "@/types";
+
+// Earlier turns sent back with each question, by the client and to the model
+export const CHAT_HISTORY_LIMIT = 12;
+
+/**
+ * The most recent turns of a conversation, starting with a user message as
+ * the model API requires
+ */
+export function trimChatHistory(messages: ChatMessage[]): ChatMessage[] {
+  const recent = messages.slice(-CHAT_HISTORY_LIMIT);
+  const firstQuestion = recent.findIndex((m) => m.role === "user");
+  return firstQuestion === -1 ? [] : recent.slice(firstQuestion);
+}
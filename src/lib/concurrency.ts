@@ -0,0 +1,82 @@
+/**
+ * Map over items with at most `limit` calls to `fn` in flight at once
+ * Results keep the order of the input items
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls
+ * @param fn - Async function applied to each item
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker)
+  );
+
+  return results;
+}
+
+/**
+ * Limits how many tasks run at once, queueing the rest in arrival order
+ */
+export interface Limiter {
+  /**
+   * Run `fn` once a slot is free
+   * `onQueued` is called with the task's place in the queue while it waits,
+   * 1 being next, and again whenever it moves up
+   */
+  run<T>(fn: () => Promise<T>, onQueued?: (position: number) => void): Promise<T>;
+  /** Tasks running now and waiting for a slot */
+  status(): { active: number; queued: number; limit: number };
+}
+
+/**
+ * Create a limiter allowing at most `limit` tasks to run at once
+ */
+export function createLimiter(limit: number): Limiter {
+  const max = Math.max(1, limit);
+  let active = 0;
+  const waiting: { start: () => void; onQueued?: (position: number) => void }[] =
+    [];
+
+  const release = () => {
+    active--;
+    const next = waiting.shift();
+    if (next) {
+      active++;
+      next.start();
+      waiting.forEach((task, i) => task.onQueued?.(i + 1));
+    }
+  };
+
+  return {
+    async run(fn, onQueued) {
+      if (active < max) {
+        active++;
+      } else {
+        await new Promise<void>((start) => {
+          waiting.push({ start, onQueued });
+          onQueued?.(waiting.length);
+        });
+      }
+
+      try {
+        return await fn();
+      } finally {
+        release();
+      }
+    },
+    status: () => ({ active, queued: waiting.length, limit: max }),
+  };
+}
@@ -0,0 +1,105 @@
+import type { CurrencyAggregate, ExchangeRates, FunderStats } from "@/types";
+
+/**
+ * An amount labelled with its currency, e.g. "£12,000", "€5,000" or
+ * "US$250,000". Unknown currency codes are written before the amount
+ */
+export function formatAmount(amount: number, currency: string = "GBP"): string {
+  try {
+    return new Intl.NumberFormat("en-GB", {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch {
+    return `${currency} ${Math.round(amount).toLocaleString("en-GB")}`;
+  }
+}
+
+/**
+ * Convert an amount to GBP, or null when there is no rate for its currency
+ */
+export function toGbp(
+  amount: number,
+  currency: string | null | undefined,
+  rates: ExchangeRates
+): number | null {
+  const code = currency || "GBP";
+  if (code === "GBP") return amount;
+  const rate = rates[code];
+  return rate ? amount * rate : null;
+}
+
+/**
+ * Total, average and range of grant amounts per currency. Amounts are never
+ * added up across currencies
+ */
+export function aggregateByCurrency(
+  grants: { amount_awarded: number; currency?: string | null }[]
+): Record<string, CurrencyAggregate> {
+  const currencies: Record<string, CurrencyAggregate> = {};
+
+  for (const grant of grants) {
+    const amount = Number(grant.amount_awarded) || 0;
+    const stats = (currencies[grant.currency || "GBP"] ||= {
+      avg: 0,
+      max: amount,
+      min: amount,
+      total: 0,
+      grants: 0,
+    });
+    stats.grants++;
+    stats.total += amount;
+    stats.max = Math.max(stats.max, amount);
+    stats.min = Math.min(stats.min, amount);
+  }
+  for (const stats of Object.values(currencies)) {
+    stats.avg = stats.total / stats.grants;
+  }
+
+  return currencies;
+}
+
+/**
+ * The currency a funder makes most of its grants in
+ */
+export function primaryCurrency(
+  currencies: FunderStats["aggregate"]["currencies"] | undefined
+): string {
+  const [top] = Object.entries(currencies || {}).sort(
+    ([, a], [, b]) => b.grants - a.grants
+  );
+  return top?.[0] || "GBP";
+}
+
+/**
+ * Combine a funder's per-currency stats into GBP equivalents
+ * Currencies without a rate are left out and listed in `unconverted`
+ * @returns null when no grants could be converted
+ */
+export function aggregateInGbp(
+  currencies: FunderStats["aggregate"]["currencies"] | undefined,
+  rates: ExchangeRates
+): (CurrencyAggregate & { unconverted: string[] }) | null {
+  let total = 0;
+  let grants = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  const unconverted: string[] = [];
+
+  for (const [currency, stats] of Object.entries(currencies || {})) {
+    const rate = currency === "GBP" ? 1 : rates[currency];
+    if (!rate) {
+      unconverted.push(currency);
+      continue;
+    }
+    total += stats.total * rate;
+    grants += stats.grants;
+    min = Math.min(min, stats.min * rate);
+    max = Math.max(max, stats.max * rate);
+  }
+
+  if (grants === 0) return null;
+
+  return { avg: total / grants, total, min, max, grants, unconverted };
+}
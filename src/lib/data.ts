@@ -1,3 +1,5 @@
+import type { ApplicationDraftSection, ManualOrganisationType } from "@/types";
+
 // Mapping from local authorities to UK regions
 export const LOCAL_AUTHORITY_TO_REGION: Record<string, string> = {
   // East Midlands
@@ -109,3 +111,48 @@ export const LOCAL_AUTHORITY_TO_REGION: Record<string, string> = {
   "West Yorkshire": "England - Yorkshire and The Humber",
   York: "England - Yorkshire and The Humber",
 } as const;
+
+// Labels for organisations that can't be looked up on the register
+export const MANUAL_ORGANISATION_TYPES: Record<ManualOrganisationType, string> = {
+  cic: "Community Interest Company",
+  community_group: "Unregistered community group",
+  scottish_charity: "Scottish charity (OSCR)",
+  ni_charity: "Northern Irish charity (CCNI)",
+  other: "Other organisation",
+};
+
+// Areas of operation, named as the Charity Commission names them
+export const UK_REGIONS = [
+  "North East",
+  "North West",
+  "Yorkshire and The Humber",
+  "East Midlands",
+  "West Midlands",
+  "East of England",
+  "London",
+  "South East",
+  "South West",
+  "Wales",
+  "Scotland",
+  "Northern Ireland",
+] as const;
+
+// Charity Commission "Who" classifications
+export const BENEFICIARY_CLASSIFICATIONS: Record<string, string> = {
+  "201": "Children/young People",
+  "202": "Elderly/old People",
+  "203": "People With Disabilities",
+  "204": "People Of A Particular Ethnic Or Racial Origin",
+  "205": "Other Charities Or Voluntary Bodies",
+  "206": "Other Defined Groups",
+  "207": "The General Public/mankind",
+};
+
+// Application draft sections in the order they appear, with their headings
+export const DRAFT_SECTIONS: Record<ApplicationDraftSection, string> = {
+  need: "The Need",
+  activities: "Our Activities",
+  outcomes: "Outcomes",
+  budget_ask: "Budget and Ask",
+  funder_fit: "Fit with the Funder",
+};
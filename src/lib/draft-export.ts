@@ -0,0 +1,92 @@
+import { Document, HeadingLevel, Packer, Paragraph, TextRun } from "docx";
+import { DRAFT_SECTIONS } from "@/lib/data";
+import type { ApplicationDraft, ApplicationDraftSection } from "@/types";
+
+/**
+ * Render a draft as Markdown, one heading per section
+ */
+export function draftToMarkdown(draft: ApplicationDraft): string {
+  const lines = [`# ${draft.title}`, "", ...describeDraft(draft), ""];
+
+  for (const [section, heading] of sectionEntries()) {
+    lines.push(`## ${heading}`, "", draft.sections[section].trim(), "");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Render a draft as a Word document
+ */
+export async function draftToDocx(draft: ApplicationDraft): Promise<Buffer> {
+  const paragraphs = (text: string) =>
+    text
+      .split(/\n\s*\n/)
+      .map((block) => block.trim())
+      .filter(Boolean)
+      .map(
+        (block) =>
+          new Paragraph({
+            spacing: { after: 160 },
+            children: block.split("\n").map(
+              (line, i) => new TextRun({ text: line, break: i > 0 ? 1 : 0 })
+            ),
+          })
+      );
+
+  const document = new Document({
+    title: draft.title,
+    creator: draft.charity_name || undefined,
+    sections: [
+      {
+        children: [
+          new Paragraph({ text: draft.title, heading: HeadingLevel.TITLE }),
+          ...describeDraft(draft).map(
+            (line) =>
+              new Paragraph({
+                children: [new TextRun({ text: line, italics: true })],
+              })
+          ),
+          ...sectionEntries().flatMap(([section, heading]) => [
+            new Paragraph({ text: heading, heading: HeadingLevel.HEADING_1 }),
+            ...paragraphs(draft.sections[section]),
+          ]),
+        ],
+      },
+    ],
+  });
+
+  return Packer.toBuffer(document);
+}
+
+/**
+ * File name for an exported draft, e.g. "youth-project-esmee-fairbairn-foundation.md"
+ */
+export function draftFileName(
+  draft: ApplicationDraft,
+  extension: "md" | "docx"
+): string {
+  const slug = `${draft.title} ${draft.funder_name || ""}`
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+
+  return `${slug || "application-draft"}.${extension}`;
+}
+
+function describeDraft(draft: ApplicationDraft): string[] {
+  return [
+    `Funder: ${draft.funder_name || draft.funder_org_id}`,
+    ...(draft.charity_name ? [`Applicant: ${draft.charity_name}`] : []),
+    ...(draft.requested_amount !== null
+      ? [`Amount requested: £${draft.requested_amount.toLocaleString("en-GB")}`]
+      : []),
+  ];
+}
+
+function sectionEntries() {
+  return Object.entries(DRAFT_SECTIONS) as [ApplicationDraftSection, string][];
+}
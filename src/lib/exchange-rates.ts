@@ -0,0 +1,101 @@
+import { supabase } from "@/lib/supabase";
+import type { ExchangeRates } from "@/types";
+
+/**
+ * Daily reference rates published by the European Central Bank
+ * Documentation: https://frankfurter.dev
+ */
+const RATES_API_URL = "https://api.frankfurter.dev/v1/latest?base=GBP";
+
+// How long loaded rates are reused before the table is read again
+const RATES_CACHE_MS = 10 * 60 * 1000;
+
+interface LoadedRates {
+  rates: ExchangeRates;
+  // Date of the newest rates, null when only GBP is known
+  rateDate: string | null;
+}
+
+let cachedRates: (LoadedRates & { loadedAt: number }) | null = null;
+
+/**
+ * Get the GBP value of one unit of each currency from the exchange_rates
+ * table. If the table can't be read, only GBP is returned, so amounts in
+ * other currencies are left out of GBP comparisons rather than failing them
+ */
+export async function getExchangeRates(): Promise<ExchangeRates> {
+  return (await loadExchangeRates()).rates;
+}
+
+/**
+ * Date of the rates getExchangeRates returns, e.g. to tell results computed
+ * with older rates apart. Null when no rates have been synced
+ */
+export async function getExchangeRateDate(): Promise<string | null> {
+  return (await loadExchangeRates()).rateDate;
+}
+
+async function loadExchangeRates(): Promise<LoadedRates> {
+  if (cachedRates && Date.now() - cachedRates.loadedAt < RATES_CACHE_MS) {
+    return cachedRates;
+  }
+
+  const { data, error } = await supabase
+    .from("exchange_rates")
+    .select("currency, gbp_rate, rate_date");
+
+  if (error) {
+    console.warn(`⚠️ Could not load exchange rates: ${error.message}`);
+    return { rates: { GBP: 1 }, rateDate: null };
+  }
+
+  const rates: ExchangeRates = { GBP: 1 };
+  let rateDate: string | null = null;
+  for (const row of data || []) {
+    rates[row.currency] = Number(row.gbp_rate);
+    if (row.currency !== "GBP" && (!rateDate || row.rate_date > rateDate)) {
+      rateDate = row.rate_date;
+    }
+  }
+
+  cachedRates = { rates, rateDate, loadedAt: Date.now() };
+  return cachedRates;
+}
+
+/**
+ * Fetch the latest rates and store them in the exchange_rates table
+ * @returns The number of currencies stored
+ */
+export async function syncExchangeRates(): Promise<number> {
+  const response = await fetch(RATES_API_URL);
+  if (!response.ok) {
+    throw new Error(
+      `Exchange rate API error: ${response.status} ${response.statusText}`
+    );
+  }
+
+  // Units of each currency per 1 GBP
+  const body: { date: string; rates: Record<string, number> } =
+    await response.json();
+
+  const rows = Object.entries(body.rates)
+    .filter(([, perGbp]) => perGbp > 0)
+    .map(([currency, perGbp]) => ({
+      currency,
+      gbp_rate: 1 / perGbp,
+      rate_date: body.date,
+      source: "ecb",
+      updated_at: new Date().toISOString(),
+    }));
+
+  const { error } = await supabase
+    .from("exchange_rates")
+    .upsert(rows, { onConflict: "currency" });
+
+  if (error) {
+    throw new Error(`Failed to save exchange rates: ${error.message}`);
+  }
+
+  cachedRates = null;
+  return rows.length;
+}
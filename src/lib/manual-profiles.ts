@@ -0,0 +1,214 @@
+import { z } from "zod";
+import { supabase } from "@/lib/supabase";
+import {
+  CLASSIFICATION_CODE_MAP,
+  getCharityProfile,
+} from "@/lib/charity-commission";
+import {
+  BENEFICIARY_CLASSIFICATIONS,
+  MANUAL_ORGANISATION_TYPES,
+  UK_REGIONS,
+} from "@/lib/data";
+import type {
+  CharityProfile,
+  ManualOrganisationType,
+  ManualProfile,
+} from "@/types";
+
+// Manual profiles are numbered from here up, well above any registered
+// charity number, so they can be cached and saved by charity number
+// alongside registered charities and use the same /charity/{number}-0 URLs
+export const MANUAL_PROFILE_NUMBER_START = 900_000_000;
+
+/**
+ * Whether a charity number belongs to a manual profile
+ */
+export function isManualProfileNumber(charityNumber: number): boolean {
+  return charityNumber > MANUAL_PROFILE_NUMBER_START;
+}
+
+/**
+ * Validates a manual profile submitted from the profile form
+ */
+export const manualProfileSchema = z.object({
+  organisation_type: z.enum(
+    Object.keys(MANUAL_ORGANISATION_TYPES) as [
+      ManualOrganisationType,
+      ...ManualOrganisationType[],
+    ]
+  ),
+  name: z.string().trim().min(2).max(200),
+  registration_number: z.string().trim().max(50).nullish(),
+  latest_income: z.number().nonnegative().nullish(),
+  latest_expenditure: z.number().nonnegative().nullish(),
+  activities: z.string().trim().max(2000).nullish(),
+  cause_codes: z
+    .array(z.enum(Object.keys(CLASSIFICATION_CODE_MAP) as [string, ...string[]]))
+    .min(1, "choose at least one cause area"),
+  beneficiary_codes: z.array(
+    z.enum(Object.keys(BENEFICIARY_CLASSIFICATIONS) as [string, ...string[]])
+  ),
+  regions: z.array(z.enum(UK_REGIONS)),
+  local_authorities: z.array(z.string().trim().min(1).max(100)).max(50),
+});
+
+export type ManualProfileInput = z.infer<typeof manualProfileSchema>;
+
+/**
+ * Save a new manual profile, which is given the next profile number
+ */
+export async function createManualProfile(
+  input: ManualProfileInput
+): Promise<ManualProfile> {
+  const { data, error } = await supabase
+    .from("manual_profiles")
+    .insert(toRow(input))
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save profile: ${error.message}`);
+  }
+
+  console.log(`💾 Saved manual profile ${data.profile_number} for ${input.name}`);
+  return data as ManualProfile;
+}
+
+/**
+ * Replace the details of an existing manual profile
+ * Returns null when no profile has the number
+ */
+export async function updateManualProfile(
+  profileNumber: number,
+  input: ManualProfileInput
+): Promise<ManualProfile | null> {
+  const { data, error } = await supabase
+    .from("manual_profiles")
+    .update({ ...toRow(input), updated_at: new Date().toISOString() })
+    .eq("profile_number", profileNumber)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update profile: ${error.message}`);
+  }
+
+  return (data as ManualProfile) || null;
+}
+
+/**
+ * Get a manual profile by its number, or null if there is none
+ */
+export async function getManualProfile(
+  profileNumber: number
+): Promise<ManualProfile | null> {
+  const { data, error } = await supabase
+    .from("manual_profiles")
+    .select("*")
+    .eq("profile_number", profileNumber)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch profile: ${error.message}`);
+  }
+
+  return (data as ManualProfile) || null;
+}
+
+/**
+ * Load a profile by number: a manual profile from the database, otherwise a
+ * registered charity from the Charity Commission
+ */
+export async function resolveCharityProfile(
+  charityNumber: number,
+  suffix: number
+): Promise<CharityProfile | null> {
+  if (!isManualProfileNumber(charityNumber)) {
+    return getCharityProfile(charityNumber, suffix);
+  }
+
+  const manual = await getManualProfile(charityNumber);
+  return manual ? toCharityProfile(manual) : null;
+}
+
+/**
+ * Present a manual profile as a Charity Commission profile, so it runs
+ * through the same matching pipeline as a registered charity
+ */
+export function toCharityProfile(manual: ManualProfile): CharityProfile {
+  const updated = manual.updated_at || manual.created_at || "";
+
+  return {
+    organisation_number: manual.profile_number,
+    reg_charity_number: manual.profile_number,
+    group_subsid_suffix: 0,
+    charity_name: manual.name,
+    charity_type: MANUAL_ORGANISATION_TYPES[manual.organisation_type],
+    insolvent: false,
+    in_administration: false,
+    prev_excepted_ind: false,
+    cif_cdf_ind: null,
+    cio_dissolution_ind: false,
+    interim_manager_ind: false,
+    date_of_interim_manager_appt: null,
+    reg_status: "Self-reported",
+    date_of_registration: manual.created_at || "",
+    date_of_removal: null,
+    latest_acc_fin_year_start_date: "",
+    latest_acc_fin_year_end_date: "",
+    latest_income: manual.latest_income ?? 0,
+    latest_expenditure: manual.latest_expenditure ?? 0,
+    address_line_one: "",
+    address_line_two: "",
+    address_line_three: "",
+    address_line_four: "",
+    address_line_five: null,
+    address_post_code: "",
+    phone: "",
+    email: "",
+    web: null,
+    charity_co_reg_number: manual.registration_number || null,
+    reporting_status: "",
+    removal_reason: null,
+    cio_ind: false,
+    last_modified_time: updated,
+    trustee_names: [],
+    who_what_where: [
+      ...manual.cause_codes.map((code) => ({
+        classification_code: code,
+        classification_type: "What",
+        classification_desc: CLASSIFICATION_CODE_MAP[code] || code,
+      })),
+      ...manual.beneficiary_codes.map((code) => ({
+        classification_code: code,
+        classification_type: "Who",
+        classification_desc: BENEFICIARY_CLASSIFICATIONS[code] || code,
+      })),
+    ],
+    CharityAoOCountryContinent: [],
+    CharityAoOLocalAuthority: manual.local_authorities.map((name) => ({
+      local_authority: name,
+      metropolitan_county: null,
+      welsh_ind: false,
+    })),
+    CharityAoORegion: manual.regions.map((region) => ({ region })),
+    other_names: [],
+    constituency_name: [],
+    activities: manual.activities || null,
+  };
+}
+
+function toRow(input: ManualProfileInput) {
+  return {
+    organisation_type: input.organisation_type,
+    name: input.name,
+    registration_number: input.registration_number || null,
+    latest_income: input.latest_income ?? null,
+    latest_expenditure: input.latest_expenditure ?? null,
+    activities: input.activities || null,
+    cause_codes: input.cause_codes,
+    beneficiary_codes: input.beneficiary_codes,
+    regions: input.regions,
+    local_authorities: input.local_authorities,
+  };
+}
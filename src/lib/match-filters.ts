@@ -0,0 +1,103 @@
+import { z } from "zod";
+import { formatAmount } from "@/lib/currency";
+import type { MatchFilters } from "@/types";
+
+/**
+ * Validates the filters object from a match request
+ */
+export const matchFiltersSchema = z
+  .object({
+    regions: z.array(z.string().trim().min(1).max(100)).max(20).optional(),
+    min_grant: z.number().min(0).optional(),
+    max_grant: z.number().min(0).optional(),
+    active_within_months: z.number().int().min(1).max(120).optional(),
+    exclude_org_ids: z.array(z.string().trim().min(1)).max(500).optional(),
+  })
+  .strict()
+  .refine(
+    (f) =>
+      f.min_grant === undefined ||
+      f.max_grant === undefined ||
+      f.min_grant <= f.max_grant,
+    { message: "must not be more than max_grant", path: ["min_grant"] }
+  );
+
+/**
+ * Put filters in a canonical form, so equivalent filters share a cache key:
+ * regions lowercased, lists deduplicated and sorted, empty lists dropped
+ */
+export function normaliseMatchFilters(filters: MatchFilters): MatchFilters {
+  const list = (values: string[] | undefined) => {
+    const unique = Array.from(new Set(values)).sort();
+    return unique.length ? unique : undefined;
+  };
+
+  return {
+    regions: list(filters.regions?.map((r) => r.trim().toLowerCase())),
+    min_grant: filters.min_grant,
+    max_grant: filters.max_grant,
+    active_within_months: filters.active_within_months,
+    exclude_org_ids: list(filters.exclude_org_ids?.map((id) => id.trim())),
+  };
+}
+
+/**
+ * Whether any filter is set
+ */
+export function hasMatchFilters(
+  filters: MatchFilters | null | undefined
+): boolean {
+  return Boolean(filters && describeMatchFilters(filters).length);
+}
+
+/**
+ * One short phrase per filter that is set, e.g. "Active in the last 18 months"
+ */
+export function describeMatchFilters(filters: MatchFilters): string[] {
+  // min_grant and max_grant share one phrase
+  const described: (keyof MatchFilters)[] = [
+    "regions",
+    "min_grant",
+    "active_within_months",
+    "exclude_org_ids",
+  ];
+
+  return described
+    .map((filter) => describeMatchFilter(filters, filter))
+    .filter((phrase): phrase is string => phrase !== null);
+}
+
+/**
+ * The short phrase for one filter, or null if it isn't set
+ */
+export function describeMatchFilter(
+  filters: MatchFilters,
+  filter: keyof MatchFilters
+): string | null {
+  switch (filter) {
+    case "regions":
+      return filters.regions?.length
+        ? `Funds in ${filters.regions.join(" or ")}`
+        : null;
+    case "min_grant":
+    case "max_grant":
+      if (filters.min_grant !== undefined && filters.max_grant !== undefined) {
+        return `Typical grant ${formatAmount(filters.min_grant)} to ${formatAmount(filters.max_grant)}`;
+      }
+      if (filters.min_grant !== undefined) {
+        return `Typical grant at least ${formatAmount(filters.min_grant)}`;
+      }
+      if (filters.max_grant !== undefined) {
+        return `Typical grant up to ${formatAmount(filters.max_grant)}`;
+      }
+      return null;
+    case "active_within_months":
+      return filters.active_within_months !== undefined
+        ? `Active in the last ${filters.active_within_months} ${filters.active_within_months === 1 ? "month" : "months"}`
+        : null;
+    case "exclude_org_ids":
+      return filters.exclude_org_ids?.length
+        ? `${filters.exclude_org_ids.length} ${filters.exclude_org_ids.length === 1 ? "funder" : "funders"} excluded`
+        : null;
+  }
+}
@@ -0,0 +1,100 @@
+import { z } from "zod";
+import type {
+  FunderMatch,
+  MatchFeedbackVerdict,
+  ScoreBreakdown,
+  ScoreWeights,
+} from "@/types";
+
+/**
+ * Default importance of each factor in the overall match score, on a 0-100
+ * scale. Weights are relative, so they don't need to sum to 100
+ */
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  mission_alignment: 30,
+  geographic_fit: 20,
+  size_compatibility: 15,
+  activity_level: 15,
+  historical_precedent: 20,
+};
+
+export const SCORE_FACTORS = Object.keys(
+  DEFAULT_SCORE_WEIGHTS
+) as (keyof ScoreBreakdown)[];
+
+/**
+ * Feedback verdicts that remove a funder from the charity's later results
+ */
+export const EXCLUDED_FEEDBACK_VERDICTS: MatchFeedbackVerdict[] = [
+  "not_relevant",
+  "ineligible",
+];
+
+// Ranking points added for funders the charity has marked as relevant
+export const FEEDBACK_RANK_BOOST = 10;
+
+const weightSchema = z.number().min(0).max(100).optional();
+
+/**
+ * Validates a partial weights object from an API request
+ */
+export const scoreWeightsSchema = z
+  .object({
+    mission_alignment: weightSchema,
+    geographic_fit: weightSchema,
+    size_compatibility: weightSchema,
+    activity_level: weightSchema,
+    historical_precedent: weightSchema,
+  })
+  .strict();
+
+/**
+ * Fill in missing factors from the defaults and fall back to the defaults
+ * entirely if every weight is zero
+ */
+export function resolveWeights(weights?: Partial<ScoreWeights>): ScoreWeights {
+  const resolved = { ...DEFAULT_SCORE_WEIGHTS };
+  for (const factor of SCORE_FACTORS) {
+    const weight = weights?.[factor];
+    if (typeof weight === "number" && weight >= 0) resolved[factor] = weight;
+  }
+  const total = SCORE_FACTORS.reduce((sum, f) => sum + resolved[f], 0);
+  return total > 0 ? resolved : DEFAULT_SCORE_WEIGHTS;
+}
+
+/**
+ * Weighted average of the score breakdown, rounded to a whole percentage
+ */
+export function computeMatchScore(
+  breakdown: ScoreBreakdown,
+  weights?: Partial<ScoreWeights>
+): number {
+  const resolved = resolveWeights(weights);
+  const total = SCORE_FACTORS.reduce((sum, f) => sum + resolved[f], 0);
+  const weighted = SCORE_FACTORS.reduce(
+    (sum, f) => sum + breakdown[f] * resolved[f],
+    0
+  );
+  return Math.round(weighted / total);
+}
+
+/**
+ * Recompute every match score with the given weights and sort best first
+ * Funders the charity marked as relevant rank as if they scored higher,
+ * without changing the score shown
+ */
+export function rankMatches(
+  matches: FunderMatch[],
+  weights?: Partial<ScoreWeights>
+): FunderMatch[] {
+  const rankScore = (match: FunderMatch) =>
+    match.match_score +
+    (match.feedback?.verdict === "relevant" ? FEEDBACK_RANK_BOOST : 0);
+
+  return matches
+    .map((match) => ({
+      ...match,
+      match_score: computeMatchScore(match.score_breakdown, weights),
+    }))
+    .sort((a, b) => rankScore(b) - rankScore(a));
+}
@@ -0,0 +1,174 @@
+import type {
+  ApplicationWindow,
+  DecisionCluster,
+  FunderSeasonality,
+} from "@/types";
+
+// Years of awards a seasonality profile is built from
+export const SEASONALITY_YEARS = 3;
+
+// Fewest dated awards in the period for a pattern to mean anything
+const MIN_SEASONAL_GRANTS = 12;
+
+// Months with at least this multiple of an even share of awards are peaks
+const PEAK_FACTOR = 1.5;
+
+// Months before a decision cluster that applications usually need to be in
+export const APPLICATION_LEAD_MONTHS = 3;
+
+// Months ahead that count as "coming months" for activity
+export const UPCOMING_MONTHS = 3;
+
+const MONTH_NAMES = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/**
+ * Count a funder's awards by calendar month over the last few years and
+ * find the clusters of months in which most are made
+ * @returns null when there are too few dated awards in the period
+ */
+export function buildSeasonality(
+  awardDates: (string | null | undefined)[],
+  now: Date = new Date()
+): FunderSeasonality | null {
+  const from = new Date(now);
+  from.setUTCFullYear(from.getUTCFullYear() - SEASONALITY_YEARS);
+
+  const monthly_awards = new Array<number>(12).fill(0);
+  let grants = 0;
+  for (const date of awardDates) {
+    if (!date) continue;
+    const awarded = new Date(date);
+    if (Number.isNaN(awarded.getTime()) || awarded < from || awarded >= now) {
+      continue;
+    }
+    monthly_awards[awarded.getUTCMonth()]++;
+    grants++;
+  }
+
+  if (grants < MIN_SEASONAL_GRANTS) return null;
+
+  return {
+    monthly_awards,
+    grants,
+    from: from.toISOString().slice(0, 10),
+    to: now.toISOString().slice(0, 10),
+    clusters: findClusters(monthly_awards, grants),
+  };
+}
+
+/**
+ * Group peak months into runs, wrapping from December to January, largest
+ * share first
+ */
+function findClusters(
+  monthlyAwards: number[],
+  grants: number
+): DecisionCluster[] {
+  const isPeak = (month: number) =>
+    monthlyAwards[month] >= (PEAK_FACTOR * grants) / 12;
+
+  // Start after a quiet month so a run spanning the new year stays whole
+  const start = monthlyAwards.findIndex((_, month) => !isPeak(month));
+  if (start === -1) return [];
+
+  const clusters: DecisionCluster[] = [];
+  let current: number[] = [];
+  for (let offset = 1; offset <= 12; offset++) {
+    const month = (start + offset) % 12;
+    if (isPeak(month)) {
+      current.push(month);
+    } else if (current.length) {
+      clusters.push(toCluster(current, monthlyAwards, grants));
+      current = [];
+    }
+  }
+
+  return clusters.sort((a, b) => b.share - a.share);
+}
+
+function toCluster(
+  months: number[],
+  monthlyAwards: number[],
+  grants: number
+): DecisionCluster {
+  const awards = months.reduce((sum, month) => sum + monthlyAwards[month], 0);
+  return { months, share: Math.round((100 * awards) / grants) / 100 };
+}
+
+/**
+ * Share of the funder's awards usually made in the coming months, 0-1
+ */
+export function upcomingAwardShare(
+  seasonality: FunderSeasonality,
+  now: Date = new Date(),
+  months: number = UPCOMING_MONTHS
+): number {
+  let awards = 0;
+  for (let offset = 0; offset < months; offset++) {
+    awards += seasonality.monthly_awards[(now.getUTCMonth() + offset) % 12];
+  }
+  return awards / seasonality.grants;
+}
+
+/**
+ * When to apply to be considered at the funder's next decision cluster,
+ * or null when its awards show no clusters
+ * A cluster already under way counts from next year's
+ */
+export function nextApplicationWindow(
+  seasonality: FunderSeasonality,
+  now: Date = new Date()
+): ApplicationWindow | null {
+  const currentMonth = now.getUTCMonth();
+  let next: { cluster: DecisionCluster; monthsUntil: number } | null = null;
+
+  for (const cluster of seasonality.clusters) {
+    const monthsUntil = (cluster.months[0] - currentMonth + 12) % 12 || 12;
+    if (!next || monthsUntil < next.monthsUntil) {
+      next = { cluster, monthsUntil };
+    }
+  }
+  if (!next) return null;
+
+  const firstDecisionMonth = next.cluster.months[0];
+  return {
+    apply_months: Array.from(
+      { length: APPLICATION_LEAD_MONTHS },
+      (_, i) => (firstDecisionMonth - APPLICATION_LEAD_MONTHS + i + 12) % 12
+    ),
+    decision_months: next.cluster.months,
+    share: next.cluster.share,
+    opens_in: Math.max(0, next.monthsUntil - APPLICATION_LEAD_MONTHS),
+  };
+}
+
+/**
+ * "Mar", or "Mar–May" for a run of months
+ */
+export function formatMonths(months: number[]): string {
+  if (months.length === 0) return "";
+  const first = MONTH_NAMES[months[0]];
+  return months.length === 1
+    ? first
+    : `${first}–${MONTH_NAMES[months[months.length - 1]]}`;
+}
+
+/**
+ * Short name of a month numbered 0 (January) to 11
+ */
+export function monthName(month: number): string {
+  return MONTH_NAMES[month];
+}
@@ -0,0 +1,51 @@
+/**
+ * Helpers for Server-Sent Events over fetch
+ * EventSource only supports GET, so POST endpoints are read with a stream reader
+ */
+
+/**
+ * Encode a single SSE message with the event type as its event name
+ */
+export function encodeSseEvent<T extends { type: string }>(event: T): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Read an SSE response body and invoke the callback for each decoded event
+ * @param body - Response body from fetch
+ * @param onEvent - Called with the parsed JSON data of each message
+ */
+export async function readSseStream<T>(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: T) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Messages are separated by a blank line
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const message = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const data = message
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+
+      if (data) {
+        onEvent(JSON.parse(data) as T);
+      }
+
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+}
@@ -75,6 +75,38 @@ export interface CharityProfile {
   constituency_name: Array<{
     constituency_name: string;
   }>;
+  // Free-text description of the charity's work, where available
+  activities?: string | null;
+}
+
+/**
+ * Organisations entered by hand because they aren't on the Charity
+ * Commission register
+ */
+export type ManualOrganisationType =
+  | "cic"
+  | "community_group"
+  | "scottish_charity"
+  | "ni_charity"
+  | "other";
+
+export interface ManualProfile {
+  // Stands in for the charity number, from a range the register never uses
+  profile_number: number;
+  organisation_type: ManualOrganisationType;
+  name: string;
+  // Company, OSCR or CCNI number, if the organisation has one
+  registration_number?: string | null;
+  latest_income?: number | null;
+  latest_expenditure?: number | null;
+  activities?: string | null;
+  // Charity Commission style "What" and "Who" classification codes
+  cause_codes: string[];
+  beneficiary_codes: string[];
+  regions: string[];
+  local_authorities: string[];
+  created_at?: string;
+  updated_at?: string;
 }
 
 /**
@@ -97,17 +129,32 @@ export interface FunderStats {
   aggregate: {
     grants: number;
     currencies: {
-      [currency: string]: {
-        avg: number;
-        max: number;
-        min: number;
-        total: number;
-        grants: number;
-      };
+      [currency: string]: CurrencyAggregate;
     };
   };
 }
 
+export interface CurrencyAggregate {
+  avg: number;
+  max: number;
+  min: number;
+  total: number;
+  grants: number;
+}
+
+/**
+ * GBP value of one unit of each currency, e.g. { GBP: 1, EUR: 0.85 }
+ */
+export type ExchangeRates = Record<string, number>;
+
+export interface ExchangeRate {
+  currency: string;
+  gbp_rate: number;
+  rate_date: string;
+  source: string;
+  updated_at: string;
+}
+
 export interface RecipientStats {
   aggregate: {
     grants: number;
@@ -166,7 +213,15 @@ export interface FunderMatch {
   match_score: number;
   score_breakdown: ScoreBreakdown;
   reasoning: string;
+  // Grants cited as evidence for each factor score
+  evidence?: MatchEvidence;
   similar_charities_funded: SimilarCharityExample[];
+  // The charity's own feedback on this funder, if any
+  feedback?: MatchFeedback;
+  // Suggested ask from the funder's comparable awards, null if it has none
+  ask_range?: AskRange | null;
+  // When the funder makes its awards, null if it has too few dated grants
+  seasonality?: FunderSeasonality | null;
 }
 
 export interface ScoreBreakdown {
@@ -177,13 +232,340 @@ export interface ScoreBreakdown {
   historical_precedent: number;
 }
 
+/**
+ * Interquartile range of a funder's awards to organisations like the charity
+ */
+export interface AskRange {
+  low: number;
+  median: number;
+  high: number;
+  // Awards the range is calculated from
+  comparable_grants: number;
+  // Which awards counted as comparable, loosened when too few were similar
+  basis: "size_and_cause" | "cause" | "size" | "all";
+}
+
+/**
+ * When in the year a funder makes its awards
+ * Months are numbered 0 (January) to 11 (December)
+ */
+export interface FunderSeasonality {
+  // Awards in each calendar month over the period, January first
+  monthly_awards: number[];
+  grants: number;
+  from: string;
+  to: string;
+  // Runs of months with well above their share of awards, which usually
+  // follow board meetings. Empty when awards are spread through the year
+  clusters: DecisionCluster[];
+}
+
+export interface DecisionCluster {
+  months: number[];
+  // Share of the period's awards made in these months, 0-1
+  share: number;
+}
+
+/**
+ * When to apply to be considered at a funder's next decision cluster
+ */
+export interface ApplicationWindow {
+  apply_months: number[];
+  decision_months: number[];
+  // Share of awards made in the decision months, 0-1
+  share: number;
+  // Months from now until the window opens, 0 if it is open now
+  opens_in: number;
+}
+
+export interface EvidenceCitation {
+  grant_id: string;
+  title: string;
+  award_date?: string;
+}
+
+export type MatchEvidence = Record<keyof ScoreBreakdown, EvidenceCitation[]>;
+
+/**
+ * Relative importance of each ScoreBreakdown factor in the overall match score
+ */
+export type ScoreWeights = Record<keyof ScoreBreakdown, number>;
+
+/**
+ * Hard limits on which funders a match request may return. Funders outside
+ * them are removed before candidates are chosen
+ */
+export interface MatchFilters {
+  // Funders must have made a grant benefiting one of these places
+  regions?: string[];
+  // Range for the funder's typical award, in GBP equivalents
+  min_grant?: number;
+  max_grant?: number;
+  // Funders must have made a grant within this many months
+  active_within_months?: number;
+  // Funder org IDs never to return
+  exclude_org_ids?: string[];
+}
+
 export interface SimilarCharityExample {
   charity_name: string;
   grant_amount: number;
   award_date: string;
   grant_purpose: string;
+  // Set when the example was checked against the grants table
+  verified?: boolean;
+  grant_id?: string;
+  recipient_org_id?: string;
+  currency?: string;
+}
+
+/**
+ * User feedback on a recommended funder
+ */
+export type MatchFeedbackVerdict =
+  | "relevant"
+  | "not_relevant"
+  | "already_applied"
+  | "ineligible";
+
+export interface MatchFeedback {
+  charity_number: number;
+  funder_org_id: string;
+  verdict: MatchFeedbackVerdict;
+  reason?: string | null;
+  match_score?: number | null;
+  created_at?: string;
+  updated_at?: string;
 }
 
+/**
+ * Feedback aggregated per funder across all charities
+ */
+export interface FunderFeedbackSummary {
+  funder_org_id: string;
+  funder_name: string | null;
+  total: number;
+  verdicts: Record<MatchFeedbackVerdict, number>;
+  // Share of feedback saying the funder should not have been recommended
+  negative_rate: number;
+  avg_match_score: number | null;
+  recent_reasons: string[];
+}
+
+/**
+ * A recorded matching run and the inputs it was given
+ */
+export interface MatchRunInputs {
+  charity: {
+    charity_name: string;
+    latest_income: number | null;
+    activities: string[];
+    beneficiaries: string[];
+    regions: string[];
+  };
+  candidates: { org_id: string; prescore: number }[];
+  filters?: MatchFilters;
+}
+
+export interface MatchRunSummary {
+  id: string;
+  charity_number: number;
+  charity_name: string | null;
+  provider: string;
+  model: string;
+  prompt_version: string;
+  funder_count: number;
+  last_sync_at: string | null;
+  created_at: string;
+}
+
+export interface MatchRun extends MatchRunSummary {
+  cache_key: string;
+  inputs: MatchRunInputs;
+  matches: FunderMatch[];
+}
+
+/**
+ * How a funder's recommendation changed between two runs
+ * Rank and score are null when the funder was not scored in that run
+ */
+export interface FunderRunChange {
+  funder_org_id: string;
+  funder_name: string;
+  before: { rank: number | null; score: number | null; reasoning: string | null };
+  after: { rank: number | null; score: number | null; reasoning: string | null };
+  score_change: number | null;
+  factor_changes: Partial<Record<keyof ScoreBreakdown, number>>;
+  reasoning_changed: boolean;
+}
+
+export interface MatchRunDiff {
+  from: MatchRunSummary;
+  to: MatchRunSummary;
+  // Differences in what the runs were given, e.g. model or charity income
+  input_changes: string[];
+  entered: FunderRunChange[];
+  left: FunderRunChange[];
+  changed: FunderRunChange[];
+}
+
+/**
+ * Why a funder ranks where it does for a charity
+ */
+export interface FactorShortfall {
+  factor: keyof ScoreBreakdown;
+  score: number;
+  // Average score for the factor among the top matches
+  benchmark: number;
+  // Overall match score points lost against the benchmark, with the weights
+  impact: number;
+}
+
+export interface FunderExplanation {
+  funder: Pick<Organisation, "org_id" | "name">;
+  // Null when the charity's feedback hides the funder and it wasn't rescored,
+  // or when a filter leaves it out
+  match: FunderMatch | null;
+  // Position the funder takes among all scored funders, 1 = best
+  rank: number | null;
+  total: number;
+  top_count: number;
+  in_top_matches: boolean;
+  // Score of the last funder in the top matches
+  cutoff_score: number | null;
+  // Whether pre-screening passed the funder on to the model with the others
+  shortlisted: boolean;
+  prescore_rank: number | null;
+  prescore_total: number | null;
+  held_back_by: FactorShortfall[];
+  feedback?: MatchFeedback;
+  // The first filter the funder fails, if the filters leave it out
+  excluded_by?: { filter: keyof MatchFilters; description: string };
+  summary: string;
+}
+
+/**
+ * Follow-up questions about a charity's matches
+ */
+export interface ChatCitation {
+  grant_id: string;
+  funder_org_id: string;
+  title: string;
+  amount_awarded?: number | null;
+  award_date?: string | null;
+}
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+  // Grants cited in an assistant answer that exist in the grants table
+  citations?: ChatCitation[];
+}
+
+/**
+ * A case for support drafted for one funder, then edited by hand
+ */
+export type ApplicationDraftSection =
+  | "need"
+  | "activities"
+  | "outcomes"
+  | "budget_ask"
+  | "funder_fit";
+
+export interface ApplicationDraft {
+  id: string;
+  charity_number: number;
+  charity_name: string | null;
+  funder_org_id: string;
+  funder_name: string | null;
+  title: string;
+  sections: Record<ApplicationDraftSection, string>;
+  // Amount asked for in GBP, if the draft names one
+  requested_amount: number | null;
+  model: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * AI call accounting
+ */
+export type AiUsageOperation = "match" | "test_connection" | "chat" | "draft";
+
+export interface AiSpendSummary {
+  daily: {
+    date: string;
+    cost_usd: number;
+    calls: number;
+    input_tokens: number;
+    output_tokens: number;
+  }[];
+  today: number;
+  month: number;
+  limits: { daily: number | null; monthly: number | null };
+}
+
+/**
+ * Events emitted while matching is in progress
+ */
+export type MatchProgressEvent =
+  | {
+      type: "progress";
+      stage:
+        | "loading_funders"
+        | "cached"
+        | "joined"
+        | "queued"
+        | "analysing"
+        | "scoring";
+      message: string;
+      scored?: number;
+      total?: number;
+      // Place in the queue for a model call, 1 being next
+      queue_position?: number;
+    }
+  | { type: "match"; match: FunderMatch }
+  | {
+      type: "notice";
+      code: "budget_exhausted";
+      message: string;
+      // What is shown instead of fresh AI results
+      fallback: "cached" | "heuristic";
+    };
+
+export type MatchJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+/**
+ * A matching run in the background, polled at /api/match/jobs/:id
+ */
+export interface MatchJob {
+  id: string;
+  charity_number: number;
+  charity_name: string | null;
+  status: MatchJobStatus;
+  filters: MatchFilters | null;
+  progress: Extract<MatchProgressEvent, { type: "progress" }> | null;
+  // Matches scored so far while running, then the final ranked matches
+  matches: FunderMatch[] | null;
+  message: string | null;
+  cached: boolean | null;
+  budget_exhausted: boolean;
+  fallback: "cached" | "heuristic" | null;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  updated_at: string;
+}
+
+/**
+ * Events sent over the /api/match/stream Server-Sent Events response
+ */
+export type MatchStreamEvent =
+  | MatchProgressEvent
+  | { type: "done"; matches: FunderMatch[]; cached: boolean }
+  | { type: "error"; error: string };
+
 export interface CharityGeographicData {
   CharityAoOLocalAuthority?: Array<{
     local_authority: string;
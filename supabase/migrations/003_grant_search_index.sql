@@ -0,0 +1,20 @@
+-- Migration: Create grant_search_index table for local full-text retrieval
+-- Stores a BM25 index over grant titles, descriptions and programmes, rebuilt on every sync
+
+CREATE TABLE IF NOT EXISTS grant_search_index (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_count INTEGER NOT NULL DEFAULT 0,
+  term_count INTEGER NOT NULL DEFAULT 0,
+  avg_document_length NUMERIC NOT NULL DEFAULT 0,
+  documents JSONB NOT NULL,
+  postings JSONB NOT NULL,
+  built_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for loading the newest build
+CREATE INDEX IF NOT EXISTS idx_grant_search_index_built_at ON grant_search_index(built_at DESC);
+
+-- Comment for documentation
+COMMENT ON TABLE grant_search_index IS 'BM25 retrieval index over grants, built at sync time and used to find grants similar to a charity''s mission';
+COMMENT ON COLUMN grant_search_index.documents IS 'Array of [grant_id, funder_org_id, token_length] in document order';
+COMMENT ON COLUMN grant_search_index.postings IS 'Map of term to flattened [document_index, term_frequency, ...] pairs';
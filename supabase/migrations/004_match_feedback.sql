@@ -0,0 +1,26 @@
+-- Migration: Create match_feedback table for per-funder match feedback
+-- Users mark recommended funders as relevant, not relevant, already applied
+-- or ineligible; later matching runs exclude or boost funders accordingly
+
+CREATE TABLE IF NOT EXISTS match_feedback (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  charity_number INTEGER NOT NULL,
+  funder_org_id TEXT NOT NULL,
+  verdict TEXT NOT NULL CHECK (verdict IN ('relevant', 'not_relevant', 'already_applied', 'ineligible')),
+  reason TEXT,
+  -- Score shown when the feedback was given, to see how wrong the model was
+  match_score INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- One verdict per charity and funder; later feedback replaces earlier
+  CONSTRAINT match_feedback_charity_funder UNIQUE (charity_number, funder_org_id)
+);
+
+-- Indexes for per-charity lookups and per-funder aggregation
+CREATE INDEX IF NOT EXISTS idx_match_feedback_charity_number ON match_feedback(charity_number);
+CREATE INDEX IF NOT EXISTS idx_match_feedback_funder_org_id ON match_feedback(funder_org_id);
+
+-- Comment for documentation
+COMMENT ON TABLE match_feedback IS 'User feedback on recommended funders, used to exclude or boost funders in later matching runs';
+COMMENT ON COLUMN match_feedback.verdict IS 'relevant, not_relevant, already_applied or ineligible';
@@ -0,0 +1,26 @@
+-- Migration: Create match_runs table recording every matching run
+-- match_cache only keeps the newest result per cache key; runs are never
+-- overwritten, so results can be compared between runs for the same charity
+
+CREATE TABLE IF NOT EXISTS match_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  charity_number INTEGER NOT NULL,
+  charity_name TEXT,
+  cache_key TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_version TEXT NOT NULL,
+  inputs JSONB NOT NULL,
+  matches JSONB NOT NULL,
+  funder_count INTEGER DEFAULT 0,
+  last_sync_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for listing a charity's runs, newest first
+CREATE INDEX IF NOT EXISTS idx_match_runs_charity_created ON match_runs(charity_number, created_at DESC);
+
+-- Comment for documentation
+COMMENT ON TABLE match_runs IS 'History of AI matching runs per charity, with their inputs, model, prompt version and results';
+COMMENT ON COLUMN match_runs.inputs IS 'Charity details, candidate funders and pre-scores the run was given';
+COMMENT ON COLUMN match_runs.matches IS 'Every match from the run, scored with the default weights';
@@ -0,0 +1,16 @@
+-- Migration: Record the data version of each funder in a cached match result
+-- After a sync, only entries involving funders whose stats or grants changed
+-- are invalidated
+
+ALTER TABLE match_cache ADD COLUMN IF NOT EXISTS funder_org_ids TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE match_cache ADD COLUMN IF NOT EXISTS funder_versions JSONB NOT NULL DEFAULT '{}';
+
+-- Index for finding the entries that involve a set of funders
+CREATE INDEX IF NOT EXISTS idx_match_cache_funder_org_ids ON match_cache USING GIN (funder_org_ids);
+
+-- Entries saved before versions were recorded can't be checked, so drop them
+DELETE FROM match_cache WHERE funder_versions = '{}'::jsonb;
+
+-- Comment for documentation
+COMMENT ON COLUMN match_cache.funder_org_ids IS 'Funders scored in this result, for finding entries affected by a sync';
+COMMENT ON COLUMN match_cache.funder_versions IS 'Map of funder org ID to a hash of its stats and latest grant when the result was saved';
@@ -0,0 +1,30 @@
+-- Migration: Create ai_usage_log table for AI token and cost accounting
+-- Every model call is logged with its tokens, estimated cost and latency,
+-- and daily/monthly spend is checked against budget limits before matching
+
+CREATE TABLE IF NOT EXISTS ai_usage_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  operation TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_creation_input_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_read_input_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  latency_ms INTEGER,
+  charity_number INTEGER,
+  cache_miss BOOLEAN,
+  success BOOLEAN NOT NULL DEFAULT TRUE,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes for spend over time and per-charity lookups
+CREATE INDEX IF NOT EXISTS idx_ai_usage_log_created_at ON ai_usage_log(created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_log_charity_number ON ai_usage_log(charity_number);
+
+-- Comment for documentation
+COMMENT ON TABLE ai_usage_log IS 'One row per AI model call with token counts, estimated cost and latency';
+COMMENT ON COLUMN ai_usage_log.cache_miss IS 'True when the call was made because no cached match result existed, false for forced refreshes, null for calls outside matching';
+COMMENT ON COLUMN ai_usage_log.cost_usd IS 'Estimated from token counts and list prices at the time of the call';
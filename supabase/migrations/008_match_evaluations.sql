@@ -0,0 +1,24 @@
+-- Migration: Create match_evaluations table for offline matching evaluations
+-- Each row is one evaluation case scored against its expected funders, with
+-- the prompt version, provider and model that produced the ranking
+
+CREATE TABLE IF NOT EXISTS match_evaluations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  eval_run_id UUID NOT NULL,
+  case_name TEXT NOT NULL,
+  prompt_version TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  metrics JSONB NOT NULL,
+  ranked_funder_ids TEXT[] NOT NULL DEFAULT '{}',
+  expected_funder_ids TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes for comparing prompt versions and loading a single evaluation run
+CREATE INDEX IF NOT EXISTS idx_match_evaluations_prompt_version ON match_evaluations(prompt_version, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_match_evaluations_eval_run_id ON match_evaluations(eval_run_id);
+
+-- Comment for documentation
+COMMENT ON TABLE match_evaluations IS 'Ranking metrics from scripts/evaluate-matching.ts, one row per case and prompt version';
+COMMENT ON COLUMN match_evaluations.metrics IS 'recall_at, precision_at, mrr, ndcg_at_10 and mean_rank against the expected funders';
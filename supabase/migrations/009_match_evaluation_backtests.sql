@@ -0,0 +1,14 @@
+-- Migration: Record historical backtests in match_evaluations
+-- A backtest hides grants awarded after a cut-off date, matches a real
+-- recipient on what was known then, and scores the funders that funded it later
+
+ALTER TABLE match_evaluations
+  ADD COLUMN IF NOT EXISTS mode TEXT NOT NULL DEFAULT 'cases' CHECK (mode IN ('cases', 'backtest')),
+  ADD COLUMN IF NOT EXISTS cutoff_date DATE;
+
+-- Index for tracking backtest results over time
+CREATE INDEX IF NOT EXISTS idx_match_evaluations_mode ON match_evaluations(mode, created_at DESC);
+
+-- Comment for documentation
+COMMENT ON COLUMN match_evaluations.mode IS 'cases for the fixed profiles in scripts/eval, backtest for historical recipients';
+COMMENT ON COLUMN match_evaluations.cutoff_date IS 'Backtests only: grants awarded on or after this date were hidden from matching';
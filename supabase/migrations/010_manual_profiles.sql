@@ -0,0 +1,31 @@
+-- Migration: Create manual_profiles table for organisations not on the
+-- Charity Commission register (CICs, community groups, Scottish and Northern
+-- Irish charities)
+-- Profile numbers start above any registered charity number, so match
+-- caches, runs and feedback key them like charity numbers
+
+CREATE SEQUENCE IF NOT EXISTS manual_profile_number_seq START WITH 900000001;
+
+CREATE TABLE IF NOT EXISTS manual_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_number INTEGER UNIQUE NOT NULL DEFAULT nextval('manual_profile_number_seq') CHECK (profile_number > 900000000),
+  organisation_type TEXT NOT NULL CHECK (organisation_type IN ('cic', 'community_group', 'scottish_charity', 'ni_charity', 'other')),
+  name TEXT NOT NULL,
+  registration_number TEXT,
+  latest_income NUMERIC,
+  latest_expenditure NUMERIC,
+  activities TEXT,
+  cause_codes TEXT[] NOT NULL DEFAULT '{}',
+  beneficiary_codes TEXT[] NOT NULL DEFAULT '{}',
+  regions TEXT[] NOT NULL DEFAULT '{}',
+  local_authorities TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER SEQUENCE manual_profile_number_seq OWNED BY manual_profiles.profile_number;
+
+-- Comment for documentation
+COMMENT ON TABLE manual_profiles IS 'Hand-entered profiles matched like registered charities, using profile_number as the charity number';
+COMMENT ON COLUMN manual_profiles.profile_number IS 'Stable identifier from 900000001 up, outside the range of registered charity numbers';
+COMMENT ON COLUMN manual_profiles.registration_number IS 'Companies House, OSCR or CCNI number, if any';
@@ -0,0 +1,25 @@
+-- Migration: Create application_drafts table for funder-tailored first drafts
+-- A draft is generated from the charity profile, the funder's grant history
+-- and programmes and the match reasoning, then edited by the fundraiser
+
+CREATE TABLE IF NOT EXISTS application_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  charity_number INTEGER NOT NULL,
+  charity_name TEXT,
+  funder_org_id TEXT NOT NULL,
+  funder_name TEXT,
+  title TEXT NOT NULL,
+  sections JSONB NOT NULL,
+  requested_amount NUMERIC,
+  model TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for a charity's drafts for a funder, newest first
+CREATE INDEX IF NOT EXISTS idx_application_drafts_charity_funder ON application_drafts(charity_number, funder_org_id, updated_at DESC);
+
+-- Comment for documentation
+COMMENT ON TABLE application_drafts IS 'Generated and edited case-for-support drafts, one row per draft';
+COMMENT ON COLUMN application_drafts.sections IS 'Draft text keyed by section: need, activities, outcomes, budget_ask, funder_fit';
+COMMENT ON COLUMN application_drafts.model IS 'Model that generated the first draft; later edits are by hand';
@@ -0,0 +1,33 @@
+-- Migration: Create match_jobs table so matching runs in the background
+-- POST /api/match creates a job and returns its ID straight away; the job
+-- records its progress and results for clients polling /api/match/jobs/:id
+
+CREATE TABLE IF NOT EXISTS match_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  charity_number INTEGER NOT NULL,
+  charity_name TEXT,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  charity_profile JSONB NOT NULL,
+  weights JSONB,
+  force_refresh BOOLEAN DEFAULT FALSE,
+  progress JSONB,
+  matches JSONB,
+  message TEXT,
+  cached BOOLEAN,
+  budget_exhausted BOOLEAN DEFAULT FALSE,
+  fallback TEXT CHECK (fallback IN ('cached', 'heuristic')),
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for a charity's jobs, newest first
+CREATE INDEX IF NOT EXISTS idx_match_jobs_charity_created ON match_jobs(charity_number, created_at DESC);
+
+-- Comment for documentation
+COMMENT ON TABLE match_jobs IS 'Background matching jobs, one row per POST /api/match request';
+COMMENT ON COLUMN match_jobs.progress IS 'Latest progress event while the job runs';
+COMMENT ON COLUMN match_jobs.matches IS 'Matches scored so far while running, then the final ranked matches';
+COMMENT ON COLUMN match_jobs.updated_at IS 'Last write by the job; running jobs that stop updating are reported as failed';
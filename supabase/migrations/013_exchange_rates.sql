@@ -0,0 +1,22 @@
+-- Migration: Create exchange_rates table for converting grant amounts to GBP
+-- Loaded by each sync. Funders that give in several currencies are compared
+-- with charities on GBP equivalents; amounts are still shown in their own
+-- currency
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  currency TEXT PRIMARY KEY,
+  gbp_rate NUMERIC NOT NULL CHECK (gbp_rate > 0),
+  rate_date DATE NOT NULL,
+  source TEXT NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- GBP converts to itself
+INSERT INTO exchange_rates (currency, gbp_rate, rate_date, source)
+VALUES ('GBP', 1, CURRENT_DATE, 'fixed')
+ON CONFLICT (currency) DO NOTHING;
+
+-- Comment for documentation
+COMMENT ON TABLE exchange_rates IS 'Latest exchange rate per currency, loaded by the data sync';
+COMMENT ON COLUMN exchange_rates.gbp_rate IS 'GBP value of one unit of the currency';
+COMMENT ON COLUMN exchange_rates.rate_date IS 'Date the rate was published by its source';
@@ -0,0 +1,8 @@
+-- Migration: Record the filters a matching job was requested with
+-- Filters limit the funders a match may return by region, grant size,
+-- recency and explicit exclusions, and are part of the match cache key
+
+ALTER TABLE match_jobs ADD COLUMN IF NOT EXISTS filters JSONB;
+
+-- Comment for documentation
+COMMENT ON COLUMN match_jobs.filters IS 'Normalised filters from the request, or null when none were set';
@@ -0,0 +1,87 @@
+-- Migration: Summarise grants per funder for pre-scoring in the database
+-- Pre-scoring reads one row per funder holding a compact entry for each of
+-- its grants, rather than every grant row with its full description, and
+-- fetches the grants described to the model for the chosen candidates only
+
+-- Compact grants per funder, made before an optional cut-off date
+-- Each entry's text is the lowercased title, the start of the description,
+-- and the classification and programme titles that cause matching reads
+CREATE OR REPLACE FUNCTION prescore_funder_grants(cutoff TIMESTAMP DEFAULT NULL)
+RETURNS TABLE (funder_org_id TEXT, summaries JSONB) AS $$
+  SELECT
+    g.funder_org_id,
+    jsonb_agg(
+      jsonb_build_object(
+        'grant_id', g.grant_id,
+        'amount_awarded', g.amount_awarded,
+        'currency', g.currency,
+        'award_date', g.award_date,
+        'text', lower(concat_ws(
+          ' ',
+          g.title,
+          left(g.description, 1000),
+          (
+            SELECT string_agg(c->>'title', ' ')
+            FROM jsonb_array_elements(
+              CASE WHEN jsonb_typeof(g.classifications) = 'array'
+                THEN g.classifications ELSE '[]'::jsonb END
+            ) c
+          ),
+          (
+            SELECT string_agg(p->>'title', ' ')
+            FROM jsonb_array_elements(
+              CASE WHEN jsonb_typeof(g.grant_programme) = 'array'
+                THEN g.grant_programme ELSE '[]'::jsonb END
+            ) p
+          )
+        )),
+        'locations', COALESCE(
+          (
+            SELECT jsonb_agg(lower(l->>'name'))
+            FROM jsonb_array_elements(
+              CASE WHEN jsonb_typeof(g.beneficiary_location) = 'array'
+                THEN g.beneficiary_location ELSE '[]'::jsonb END
+            ) l
+            WHERE COALESCE(l->>'name', '') <> ''
+          ),
+          '[]'::jsonb
+        )
+      )
+    )
+  FROM grants g
+  WHERE g.funder_org_id IS NOT NULL
+    AND (cutoff IS NULL OR g.award_date < cutoff)
+  GROUP BY g.funder_org_id
+  ORDER BY g.funder_org_id;
+$$ LANGUAGE sql STABLE;
+
+-- Each funder's most recent grants, made before an optional cut-off date
+-- Ties on award date are broken by grant ID, newest first
+CREATE OR REPLACE FUNCTION recent_funder_grants(
+  funder_ids TEXT[],
+  per_funder INTEGER,
+  cutoff TIMESTAMP DEFAULT NULL
+)
+RETURNS SETOF grants AS $$
+  SELECT g.*
+  FROM grants g
+  WHERE g.id IN (
+    SELECT ranked.id
+    FROM (
+      SELECT
+        id,
+        row_number() OVER (
+          PARTITION BY funder_org_id
+          ORDER BY award_date DESC NULLS LAST, grant_id DESC
+        ) AS position
+      FROM grants
+      WHERE funder_org_id = ANY(funder_ids)
+        AND (cutoff IS NULL OR award_date < cutoff)
+    ) ranked
+    WHERE ranked.position <= per_funder
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Comment for documentation
+COMMENT ON FUNCTION prescore_funder_grants IS 'Per-funder grant summaries for pre-scoring: amount, currency, date, search text and beneficiary locations of each grant';
+COMMENT ON FUNCTION recent_funder_grants IS 'The most recent grants of each listed funder, used as the sample described to the model';
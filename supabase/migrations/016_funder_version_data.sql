@@ -0,0 +1,37 @@
+-- Migration: Read what each funder's data version is made from in one query
+-- Checking cached matches needed two grant queries per funder, for its grant
+-- count and its most recent grant
+
+-- Each listed funder's stats, grant count and most recent grant
+-- Ties on award date are broken by grant ID, newest first, as the app does
+CREATE OR REPLACE FUNCTION funder_version_data(funder_ids TEXT[])
+RETURNS TABLE (
+  org_id TEXT,
+  funder_stats JSONB,
+  last_grant_made_date TIMESTAMP,
+  grant_count BIGINT,
+  latest_grant_id TEXT,
+  latest_award_date TIMESTAMP,
+  latest_amount_awarded NUMERIC
+) AS $$
+  SELECT
+    o.org_id,
+    o.funder_stats,
+    o.last_grant_made_date,
+    (SELECT count(*) FROM grants g WHERE g.funder_org_id = o.org_id),
+    latest.grant_id,
+    latest.award_date,
+    latest.amount_awarded
+  FROM organisations o
+  LEFT JOIN LATERAL (
+    SELECT g.grant_id, g.award_date, g.amount_awarded
+    FROM grants g
+    WHERE g.funder_org_id = o.org_id
+    ORDER BY g.award_date DESC NULLS LAST, g.grant_id DESC
+    LIMIT 1
+  ) latest ON true
+  WHERE o.org_id = ANY(funder_ids);
+$$ LANGUAGE sql STABLE;
+
+-- Comment for documentation
+COMMENT ON FUNCTION funder_version_data IS 'Stats, grant count and most recent grant of each listed funder, from which its data version is computed';
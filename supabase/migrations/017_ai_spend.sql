@@ -0,0 +1,16 @@
+-- Migration: Sum AI spend in the database for budget checks
+-- The budget is checked before every model call, which read every usage row
+-- logged this month
+
+-- Spend since the start of the day and since the start of the month
+CREATE OR REPLACE FUNCTION ai_spend(day_start TIMESTAMPTZ, month_start TIMESTAMPTZ)
+RETURNS TABLE (today NUMERIC, month NUMERIC) AS $$
+  SELECT
+    COALESCE(SUM(cost_usd) FILTER (WHERE created_at >= day_start), 0),
+    COALESCE(SUM(cost_usd), 0)
+  FROM ai_usage_log
+  WHERE created_at >= month_start;
+$$ LANGUAGE sql STABLE;
+
+-- Comment for documentation
+COMMENT ON FUNCTION ai_spend IS 'Estimated USD spend on AI calls since the given start of day and start of month';
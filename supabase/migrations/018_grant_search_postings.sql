@@ -0,0 +1,35 @@
+-- Migration: Store the grant search index one row per document and per term
+-- The whole index was one JSONB row that grew with every grant synced, and
+-- every search read it in full. A search now reads the postings of its own
+-- terms only
+
+-- Builds in the old layout can't be read; the next sync builds a new one
+DELETE FROM grant_search_index;
+ALTER TABLE grant_search_index DROP COLUMN IF EXISTS documents;
+ALTER TABLE grant_search_index DROP COLUMN IF EXISTS postings;
+
+-- A build is only read once all of its rows are written
+ALTER TABLE grant_search_index ADD COLUMN IF NOT EXISTS complete BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE IF NOT EXISTS grant_search_documents (
+  index_id UUID NOT NULL REFERENCES grant_search_index(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  grant_id TEXT NOT NULL,
+  funder_org_id TEXT NOT NULL,
+  length INTEGER NOT NULL,
+  PRIMARY KEY (index_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS grant_search_postings (
+  index_id UUID NOT NULL REFERENCES grant_search_index(id) ON DELETE CASCADE,
+  term TEXT NOT NULL,
+  postings INTEGER[] NOT NULL,
+  PRIMARY KEY (index_id, term)
+);
+
+-- Comment for documentation
+COMMENT ON COLUMN grant_search_index.complete IS 'True once every document and posting of the build has been saved';
+COMMENT ON TABLE grant_search_documents IS 'Grants in a search index build, by position in the build';
+COMMENT ON COLUMN grant_search_documents.length IS 'Number of indexed terms in the grant text';
+COMMENT ON TABLE grant_search_postings IS 'BM25 postings of each term in a search index build';
+COMMENT ON COLUMN grant_search_postings.postings IS 'Flattened [document_position, term_frequency, ...] pairs';